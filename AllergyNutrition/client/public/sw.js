@@ -0,0 +1,85 @@
+// Service worker for dose reminder push notifications. Payloads come from
+// server/notifications/web-push.ts.
+
+const SNOOZE_MINUTES = 15;
+
+self.addEventListener('install', () => {
+  self.skipWaiting();
+});
+
+self.addEventListener('activate', (event) => {
+  event.waitUntil(self.clients.claim());
+});
+
+self.addEventListener('push', (event) => {
+  if (!event.data) return;
+  const payload = event.data.json();
+  event.waitUntil(
+    self.registration.showNotification(payload.title, {
+      body: payload.body,
+      tag: payload.tag,
+      renotify: !!payload.tag,
+      requireInteraction: true,
+      actions: payload.actions || [],
+      data: { url: payload.url || '/', scheduleEntryId: payload.scheduleEntryId },
+    })
+  );
+});
+
+// HH:MM a few minutes from now, kept on the same day
+function snoozedTime() {
+  const now = new Date();
+  const minutes = Math.min(now.getHours() * 60 + now.getMinutes() + SNOOZE_MINUTES, 23 * 60 + 59);
+  const pad = (n) => String(n).padStart(2, '0');
+  return `${pad(Math.floor(minutes / 60))}:${pad(minutes % 60)}`;
+}
+
+async function openApp(url) {
+  const windows = await self.clients.matchAll({ type: 'window', includeUncontrolled: true });
+  const existing = windows.find((client) => new URL(client.url).origin === self.location.origin);
+  if (existing) {
+    await existing.focus();
+    return;
+  }
+  await self.clients.openWindow(url);
+}
+
+// Same route the calendar uses; the session cookie goes along since it's same-origin
+async function updateEntry(id, data) {
+  const response = await fetch(`/api/schedule/${id}`, {
+    method: 'PATCH',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(data),
+    credentials: 'include',
+  });
+  if (!response.ok) throw new Error(`${response.status}`);
+
+  // Let open tabs refresh their schedule
+  const windows = await self.clients.matchAll({ type: 'window' });
+  windows.forEach((client) => client.postMessage({ type: 'schedule-updated' }));
+}
+
+self.addEventListener('notificationclick', (event) => {
+  const notification = event.notification;
+  const { url, scheduleEntryId } = notification.data || {};
+  notification.close();
+
+  if (!event.action || scheduleEntryId == null) {
+    event.waitUntil(openApp(url || '/'));
+    return;
+  }
+
+  const update = event.action === 'done'
+    ? { status: 'completed' }
+    : { calculatedTime: snoozedTime() };
+
+  event.waitUntil(
+    updateEntry(scheduleEntryId, update).catch(() =>
+      self.registration.showNotification("Couldn't update the dose", {
+        body: 'Open the app to mark it done or change its time.',
+        tag: notification.tag,
+        data: { url: url || '/' },
+      })
+    )
+  );
+});
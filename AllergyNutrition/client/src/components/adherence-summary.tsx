@@ -0,0 +1,28 @@
+import { type ScheduleEntry } from "@shared/schema";
+import { calculateAdherence } from "@shared/entry-status";
+import { formatDate } from "@/lib/date-utils";
+
+interface AdherenceSummaryProps {
+  entries: ScheduleEntry[];
+  className?: string;
+}
+
+// Doses taken out of doses due for the entries on screen
+export default function AdherenceSummary({ entries, className = "" }: AdherenceSummaryProps) {
+  const adherence = calculateAdherence(entries, formatDate(new Date()));
+  if (adherence.percent === null) return null;
+
+  const details = [
+    adherence.partial > 0 && `${adherence.partial} partly eaten`,
+    adherence.skipped > 0 && `${adherence.skipped} skipped`,
+    adherence.missed > 0 && `${adherence.missed} missed`,
+  ].filter(Boolean);
+
+  return (
+    <div className={`text-sm ${className}`} style={{ color: 'hsl(var(--apple-medium))' }}>
+      <span className="font-medium" style={{ color: 'hsl(var(--apple-dark))' }}>{adherence.percent}%</span>
+      {' '}of {adherence.due} doses taken
+      {details.length > 0 && ` · ${details.join(' · ')}`}
+    </div>
+  );
+}
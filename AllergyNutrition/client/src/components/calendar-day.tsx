@@ -1,4 +1,8 @@
-import { type Food, type ScheduleEntry } from "@shared/schema";
+import { type Food, type Pause, type ScheduleEntry } from "@shared/schema";
+import { getRecurrence } from "@shared/recurrence";
+import { pauseCovers } from "@shared/pauses";
+import { entryStatusIcons } from "@shared/entry-status";
+import { getDoseTiming } from "@shared/dose-timing";
 import { useMutation, useQueryClient } from "@tanstack/react-query";
 import { apiRequest } from "@/lib/queryClient";
 
@@ -8,7 +12,9 @@ interface CalendarDayProps {
   isToday: boolean;
   scheduleEntries: ScheduleEntry[];
   foods: Food[];
+  pauses?: Pause[];
   onClick: (date: Date) => void;
+  onCompleteFood?: (entryId: number, isCompleted: boolean) => void;
 }
 
 const colorMap: Record<string, string> = {
@@ -30,15 +36,24 @@ export default function CalendarDay({
   isToday, 
   scheduleEntries, 
   foods,
-  onClick 
+  pauses = [],
+  onClick,
+  onCompleteFood
 }: CalendarDayProps) {
   const dayNumber = date.getDate();
   const dateString = date.toISOString().split('T')[0];
   const dayEntries = scheduleEntries.filter(entry => entry.date === dateString);
   
-  const foodsForDay = dayEntries.map(entry => 
-    foods.find(food => food.id === entry.foodId)
-  ).filter(Boolean) as Food[];
+  // One item per dose so each slot of a multi-dose food can be completed on its own
+  const dosesForDay = dayEntries.map(entry => ({
+    entry,
+    food: foods.find(food => food.id === entry.foodId)
+  })).filter(item => item.food) as { entry: ScheduleEntry; food: Food }[];
+
+  const dayPauses = pauses.filter(pause => pauseCovers(pause, dateString));
+  const pausedLabel = dayPauses.some(pause => pause.foodId === null)
+    ? 'Paused'
+    : dayPauses.map(pause => foods.find(food => food.id === pause.foodId)?.name).filter(Boolean).join(', ');
 
   return (
     <div 
@@ -85,14 +100,25 @@ export default function CalendarDay({
         {dayNumber}
       </div>
       <div className="space-y-1">
-        {foodsForDay.slice(0, 3).map((food) => (
+        {pausedLabel && (
+          <div className="text-xs px-2 py-1 rounded-md text-center truncate bg-slate-100 text-slate-600">
+            ⏸ {pausedLabel}
+          </div>
+        )}
+        {dosesForDay.slice(0, 3).map(({ entry, food }) => (
           <div
-            key={food.id}
-            className="minecraft-food-item text-xs text-white px-2 py-1 rounded-md text-center transform transition-all duration-200 ease-out hover:scale-110 hover:z-10 hover:shadow-lg cursor-pointer active:scale-110 active:shadow-lg"
+            key={entry.id}
+            title={entry.skipReason ?? entry.actualAmount ?? entry.adjustmentNote ?? undefined}
+            className={`minecraft-food-item text-xs text-white px-2 py-1 rounded-md text-center ${entry.isCompleted ? 'line-through opacity-60' : ''} ${entry.status === 'skipped' || entry.status === 'missed' ? 'opacity-40' : ''} transform transition-all duration-200 ease-out hover:scale-110 hover:z-10 hover:shadow-lg cursor-pointer active:scale-110 active:shadow-lg`}
             style={{ 
               backgroundColor: colorMap[food.color] || colorMap.blue,
               boxShadow: `0 0 0 0 ${colorMap[food.color] || colorMap.blue}40`
             }}
+            onClick={(e) => {
+              if (!onCompleteFood) return;
+              e.stopPropagation();
+              onCompleteFood(entry.id, !entry.isCompleted);
+            }}
             onMouseEnter={(e) => {
               if (window.matchMedia('(hover: hover)').matches && e.currentTarget?.style) {
                 e.currentTarget.style.boxShadow = `0 0 12px 2px ${colorMap[food.color] || colorMap.blue}60`;
@@ -120,10 +146,14 @@ export default function CalendarDay({
               }, 150);
             }}
           >
+            {entryStatusIcons[entry.status]}
+            {entry.isCompleted && entry.completedAt && getDoseTiming(entry, food, new Date(entry.completedAt)).late && '⏱ '}
+            {entry.status === 'pending' && entry.adjustmentNote && '⚠️ '}
             {food.name}
+            {getRecurrence(food).dosesPerDay > 1 && ` ${entry.doseSlot + 1}/${getRecurrence(food).dosesPerDay}`}
           </div>
         ))}
-        {foodsForDay.length > 3 && (
+        {dosesForDay.length > 3 && (
           <div 
             className="text-xs px-2 py-1 rounded-md text-center"
             style={{ 
@@ -131,7 +161,7 @@ export default function CalendarDay({
               color: 'hsl(var(--apple-medium))'
             }}
           >
-            +{foodsForDay.length - 3} more
+            +{dosesForDay.length - 3} more
           </div>
         )}
       </div>
@@ -4,10 +4,15 @@ import { Button } from "@/components/ui/button";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } from "@/components/ui/dialog";
 import { type Food, type ScheduleEntry } from "@shared/schema";
+import { getRecurrence, doseSlotLabel } from "@shared/recurrence";
 import { formatDisplayDate } from "@/lib/date-utils";
 import { useMutation, useQueryClient } from "@tanstack/react-query";
 import { apiRequest } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
+import ReactionForm from "@/components/reaction-form";
+import ReactionList from "@/components/reaction-list";
+import EntryStatusForm from "@/components/entry-status-form";
+import EntryStatusNote from "@/components/entry-status-note";
 
 interface DayEditModalProps {
   isOpen: boolean;
@@ -38,6 +43,9 @@ export default function DayEditModal({
   foods 
 }: DayEditModalProps) {
   const [selectedFoodId, setSelectedFoodId] = useState<string>("");
+  // Reaction being logged: for a specific dose, or for the day when null
+  const [reactionEntry, setReactionEntry] = useState<ScheduleEntry | null | undefined>(undefined);
+  const [statusEntry, setStatusEntry] = useState<ScheduleEntry | null>(null);
   const { toast } = useToast();
   const queryClient = useQueryClient();
 
@@ -113,6 +121,29 @@ export default function DayEditModal({
     }
   });
 
+  const rescheduleMutation = useMutation({
+    mutationFn: async (foodId: number) => {
+      const response = await apiRequest('POST', `/api/foods/${foodId}/reschedule`, { date: dateString });
+      return response.json() as Promise<{ shiftedDays: number; created: number }>;
+    },
+    onSuccess: ({ shiftedDays }) => {
+      queryClient.invalidateQueries({ queryKey: ['/api/schedule'] });
+      toast({
+        title: "Schedule shifted",
+        description: shiftedDays > 0
+          ? `The rest of the progression moved ${shiftedDays} day${shiftedDays === 1 ? '' : 's'} later.`
+          : "No doses were missed, so the progression continues as planned.",
+      });
+    },
+    onError: () => {
+      toast({
+        title: "Error",
+        description: "Failed to reschedule.",
+        variant: "destructive",
+      });
+    }
+  });
+
   const clearAllMutation = useMutation({
     mutationFn: async () => {
       return apiRequest('DELETE', `/api/schedule/date/${dateString}`);
@@ -143,6 +174,15 @@ export default function DayEditModal({
     removeFoodMutation.mutate(entryId);
   };
 
+  const handleClose = () => {
+    setReactionEntry(undefined);
+    setStatusEntry(null);
+    onClose();
+  };
+
+  const getSlotLabel = (entry: ScheduleEntry, food: Food) =>
+    doseSlotLabel(entry.doseSlot, getRecurrence(food).dosesPerDay);
+
   const availableFoods = foods.filter(food => 
     !dayEntries.some(entry => entry.foodId === food.id)
   );
@@ -150,8 +190,8 @@ export default function DayEditModal({
   if (!date) return null;
 
   return (
-    <Dialog open={isOpen} onOpenChange={onClose}>
-      <DialogContent className="max-w-md">
+    <Dialog open={isOpen} onOpenChange={handleClose}>
+      <DialogContent className="max-w-md max-h-[90vh] overflow-y-auto">
         <DialogHeader>
           <DialogTitle>Edit Day Schedule</DialogTitle>
           <DialogDescription>
@@ -159,6 +199,33 @@ export default function DayEditModal({
           </DialogDescription>
         </DialogHeader>
         
+        {statusEntry ? (
+          <div className="space-y-4">
+            <div className="text-sm" style={{ color: 'hsl(var(--apple-medium))' }}>
+              {foods.find(food => food.id === statusEntry.foodId)?.name} on {formatDisplayDate(date)}
+              {statusEntry.calculatedAmount && ` · ${statusEntry.calculatedAmount}`}
+            </div>
+            <EntryStatusForm
+              entry={statusEntry}
+              foodName={foods.find(food => food.id === statusEntry.foodId)?.name ?? 'Dose'}
+              onDone={() => setStatusEntry(null)}
+            />
+          </div>
+        ) : reactionEntry !== undefined ? (
+          <div className="space-y-4">
+            <div className="text-sm" style={{ color: 'hsl(var(--apple-medium))' }}>
+              Reaction on {formatDisplayDate(date)}
+              {reactionEntry && ` after ${foods.find(food => food.id === reactionEntry.foodId)?.name ?? 'this dose'}`}
+            </div>
+            <ReactionForm
+              date={dateString!}
+              foods={foods}
+              entry={reactionEntry ?? undefined}
+              onSuccess={() => setReactionEntry(undefined)}
+              onCancel={() => setReactionEntry(undefined)}
+            />
+          </div>
+        ) : (
         <div className="space-y-4">
           <div className="text-sm" style={{ color: 'hsl(var(--apple-medium))' }}>
             {formatDisplayDate(date)}
@@ -209,19 +276,60 @@ export default function DayEditModal({
                         e.currentTarget.style.boxShadow = `0 0 0 0 ${colorMap[food!.color] || colorMap.blue}40`;
                       }}
                     />
-                    <span className={`text-sm ${entry.isCompleted ? 'line-through text-gray-500' : ''}`}>
-                      {food!.name}
-                    </span>
+                    <div>
+                      <span className={`text-sm ${entry.isCompleted ? 'line-through text-gray-500' : ''}`}>
+                        {food!.name}
+                        {getSlotLabel(entry, food!) && (
+                          <span className="ml-1 text-xs text-gray-500">({getSlotLabel(entry, food!)})</span>
+                        )}
+                      </span>
+                      <EntryStatusNote entry={entry} food={food!} />
+                    </div>
+                  </div>
+                  <div className="flex items-center">
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => setStatusEntry(entry)}
+                      className="text-gray-600 hover:text-gray-700"
+                    >
+                      Status
+                    </Button>
+                    {entry.isCompleted && (
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => setReactionEntry(entry)}
+                        className="text-orange-500 hover:text-orange-600"
+                      >
+                        Reaction
+                      </Button>
+                    )}
+                    {!entry.isCompleted && entry.doseSlot === 0 && (
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => {
+                          if (confirm(`Resume ${food!.name} from this day where it left off? Later doses move back accordingly.`)) {
+                            rescheduleMutation.mutate(food!.id);
+                          }
+                        }}
+                        className="text-blue-500 hover:text-blue-600"
+                        disabled={rescheduleMutation.isPending}
+                      >
+                        Reschedule from here
+                      </Button>
+                    )}
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => handleRemoveFood(entry.id)}
+                      className="text-red-500 hover:text-red-600"
+                      disabled={removeFoodMutation.isPending}
+                    >
+                      Remove
+                    </Button>
                   </div>
-                  <Button
-                    variant="ghost"
-                    size="sm"
-                    onClick={() => handleRemoveFood(entry.id)}
-                    className="text-red-500 hover:text-red-600"
-                    disabled={removeFoodMutation.isPending}
-                  >
-                    Remove
-                  </Button>
                 </div>
               ))}
             </div>
@@ -305,9 +413,18 @@ export default function DayEditModal({
             </div>
           )}
 
+          <ReactionList date={dateString!} foods={foods} />
+
           <div className="flex space-x-3 pt-4">
             <Button
-              onClick={onClose}
+              onClick={() => setReactionEntry(null)}
+              variant="outline"
+              className="flex-1 text-orange-600 border-orange-300 hover:bg-orange-50"
+            >
+              Log Reaction
+            </Button>
+            <Button
+              onClick={handleClose}
               variant="outline"
               className="flex-1"
             >
@@ -315,6 +432,7 @@ export default function DayEditModal({
             </Button>
           </div>
         </div>
+        )}
       </DialogContent>
     </Dialog>
   );
@@ -0,0 +1,153 @@
+import { useState } from "react";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { type EntryStatus, type ScheduleEntry } from "@shared/schema";
+import { entryStatusLabels, isDoseTaken } from "@shared/entry-status";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+
+// Missed is set by the nightly pass, but can still be picked to correct an entry
+const statusOptions: EntryStatus[] = ["completed", "partial", "skipped", "missed", "pending"];
+
+const skipReasons = ["Fever", "Illness", "Exercise", "Allergist advice", "Refused"];
+
+// Value for a datetime-local input, in local time
+function toLocalInput(date: Date): string {
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}T${pad(date.getHours())}:${pad(date.getMinutes())}`;
+}
+
+// When the dose was taken: as recorded, or for a dose logged after the fact the time
+// it was due, or otherwise now
+function defaultTakenAt(entry: ScheduleEntry): string {
+  if (entry.completedAt) return toLocalInput(new Date(entry.completedAt));
+  const now = new Date();
+  if (entry.date < toLocalInput(now).split('T')[0]) {
+    return `${entry.date}T${entry.calculatedTime ?? '12:00'}`;
+  }
+  return toLocalInput(now);
+}
+
+interface EntryStatusFormProps {
+  entry: ScheduleEntry;
+  foodName: string;
+  onDone?: () => void;
+}
+
+export default function EntryStatusForm({ entry, foodName, onDone }: EntryStatusFormProps) {
+  const [status, setStatus] = useState<EntryStatus>(entry.status);
+  const [actualAmount, setActualAmount] = useState(entry.actualAmount ?? "");
+  const [skipReason, setSkipReason] = useState(entry.skipReason ?? "");
+  const [takenAt, setTakenAt] = useState(defaultTakenAt(entry));
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const updateMutation = useMutation({
+    mutationFn: async () => {
+      return apiRequest('PATCH', `/api/schedule/${entry.id}`, {
+        status,
+        actualAmount: actualAmount.trim() || null,
+        skipReason: skipReason.trim() || null,
+        completedAt: isDoseTaken(status) && takenAt ? new Date(takenAt).toISOString() : null,
+      });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/schedule'] });
+      onDone?.();
+      toast({
+        title: "Status updated",
+        description: `${foodName}: ${entryStatusLabels[status]}.`,
+      });
+    },
+    onError: () => {
+      toast({
+        title: "Error",
+        description: "Failed to update status.",
+        variant: "destructive",
+      });
+    }
+  });
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap gap-1">
+        {statusOptions.map((option) => (
+          <Button
+            key={option}
+            type="button"
+            size="sm"
+            variant={status === option ? 'default' : 'outline'}
+            className="text-xs"
+            onClick={() => setStatus(option)}
+          >
+            {entryStatusLabels[option]}
+          </Button>
+        ))}
+      </div>
+
+      {isDoseTaken(status) && (
+        <div className="space-y-2">
+          <label className="block text-sm font-medium">Taken At</label>
+          <Input
+            type="datetime-local"
+            max={toLocalInput(new Date())}
+            value={takenAt}
+            onChange={(e) => setTakenAt(e.target.value)}
+          />
+          {entry.calculatedTime && (
+            <p className="text-xs text-gray-500">Due at {entry.calculatedTime}</p>
+          )}
+        </div>
+      )}
+
+      {status === 'partial' && (
+        <div className="space-y-2">
+          <label className="block text-sm font-medium">Amount Eaten</label>
+          <Input
+            placeholder={entry.calculatedAmount ? `Out of ${entry.calculatedAmount}` : "e.g., half"}
+            value={actualAmount}
+            onChange={(e) => setActualAmount(e.target.value)}
+          />
+        </div>
+      )}
+
+      {status === 'skipped' && (
+        <div className="space-y-2">
+          <label className="block text-sm font-medium">Reason</label>
+          <div className="flex flex-wrap gap-1">
+            {skipReasons.map((reason) => (
+              <Button
+                key={reason}
+                type="button"
+                size="sm"
+                variant={skipReason === reason ? 'default' : 'outline'}
+                className="text-xs"
+                onClick={() => setSkipReason(reason)}
+              >
+                {reason}
+              </Button>
+            ))}
+          </div>
+          <Input placeholder="Something else" value={skipReason} onChange={(e) => setSkipReason(e.target.value)} />
+        </div>
+      )}
+
+      <div className="flex gap-2">
+        <Button
+          onClick={() => updateMutation.mutate()}
+          disabled={updateMutation.isPending}
+          className="flex-1 text-white"
+          style={{ backgroundColor: 'hsl(var(--apple-blue))' }}
+        >
+          {updateMutation.isPending ? 'Saving...' : 'Save'}
+        </Button>
+        {onDone && (
+          <Button variant="outline" onClick={onDone}>
+            Cancel
+          </Button>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,45 @@
+import { type Food, type ScheduleEntry } from "@shared/schema";
+import { entryStatusIcons, entryStatusLabels, isDoseTaken } from "@shared/entry-status";
+import { formatDelay, getDoseTiming } from "@shared/dose-timing";
+
+const statusStyles: Partial<Record<ScheduleEntry["status"], string>> = {
+  partial: 'text-amber-600',
+  skipped: 'text-slate-500',
+  missed: 'text-red-500',
+};
+
+interface EntryStatusNoteProps {
+  entry: ScheduleEntry;
+  food?: Food; // Needed to flag doses taken late or outside the food's time window
+  className?: string;
+}
+
+// What happened to a dose that wasn't simply taken on time: partly eaten, skipped,
+// missed or taken late
+export default function EntryStatusNote({ entry, food, className = "" }: EntryStatusNoteProps) {
+  const style = statusStyles[entry.status];
+  const detail = entry.status === 'partial' ? entry.actualAmount : entry.status === 'skipped' ? entry.skipReason : null;
+
+  const takenAt = isDoseTaken(entry.status) && entry.completedAt ? new Date(entry.completedAt) : null;
+  const timing = takenAt && food ? getDoseTiming(entry, food, takenAt) : null;
+  const timingFlags = [
+    timing?.late && `⏱ ${timing.minutesLate !== null ? `${formatDelay(timing.minutesLate)} late` : 'late'}`,
+    timing?.outsideWindow && 'outside the dosing window',
+  ].filter(Boolean);
+
+  return (
+    <>
+      {style && (
+        <p className={`text-xs font-medium ${style} ${className}`}>
+          {entryStatusIcons[entry.status]}{entryStatusLabels[entry.status]}{detail && `: ${detail}`}
+        </p>
+      )}
+      {takenAt && (
+        <p className={`text-xs ${timingFlags.length > 0 ? 'font-medium text-amber-600' : 'text-gray-500'} ${className}`}>
+          Taken {takenAt.toLocaleString([], { dateStyle: 'short', timeStyle: 'short' })}
+          {timingFlags.length > 0 && ` · ${timingFlags.join(' · ')}`}
+        </p>
+      )}
+    </>
+  );
+}
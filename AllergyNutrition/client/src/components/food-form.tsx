@@ -5,14 +5,45 @@ import { z } from "zod";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Textarea } from "@/components/ui/textarea";
-import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Select, SelectContent, SelectGroup, SelectItem, SelectLabel, SelectTrigger, SelectValue } from "@/components/ui/select";
 
 import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
-import { insertFoodSchema, type Food } from "@shared/schema";
-import { useMutation, useQueryClient } from "@tanstack/react-query";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import {
+  insertFoodSchema,
+  protocolSettingsSchema,
+  type Food,
+  type RecurrenceRule,
+  type DoseSlot,
+  type DoseStep,
+  type ProtocolSettings,
+  type ProtocolTemplate,
+  type BuiltInProtocolTemplate,
+  type MissedDoseRule,
+  type ReactionAction,
+  type ScheduleDiff,
+} from "@shared/schema";
+import { frequencyPresets, getRecurrence, describeRecurrence } from "@shared/recurrence";
+import { canConvert, parseQuantity } from "@shared/quantity";
+import ProductSelect from "@/components/product-select";
+import ScheduleDiffList from "@/components/schedule-diff";
+import SchedulePreview from "@/components/schedule-preview";
+import { defaultReactionActions, reactionActionLabels } from "@shared/reaction-grading";
+import { DEFAULT_OBSERVATION_MINUTES, defaultRestRules } from "@shared/observation";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 import { apiRequest } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
 import { formatDate } from "@/lib/date-utils";
+import { dosesToReachEndTime, validateTimeWindow } from "@shared/time-window";
 
 const formSchema = insertFoodSchema.extend({
   startDate: z.string().min(1, "Start date is required"),
@@ -20,17 +51,37 @@ const formSchema = insertFoodSchema.extend({
   // Dose progression fields
   startingAmount: z.string().optional(),
   targetAmount: z.string().optional(),
-  progressionType: z.enum(["buildup", "static", "reduction", "custom"]).optional(),
+  progressionType: z.enum(["buildup", "static", "reduction", "custom", "steps"]).optional(),
   progressionDuration: z.number().min(1).optional(),
   // Time scheduling fields
   startTime: z.string().optional(),
   endTime: z.string().optional(),
   timeProgression: z.enum(["later", "earlier", "static"]).optional(),
   timeProgressionAmount: z.number().min(1).optional(),
+}).superRefine((data, ctx) => {
+  const windowError = validateTimeWindow(data);
+  if (windowError) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: [windowError.path], message: windowError.message });
+  }
 });
 
 type FormData = z.infer<typeof formSchema>;
 
+interface ProtocolTemplatesResponse {
+  builtIn: BuiltInProtocolTemplate[];
+  saved: ProtocolTemplate[];
+}
+
+const weekdayOptions = [
+  { value: 0, label: 'Sun' },
+  { value: 1, label: 'Mon' },
+  { value: 2, label: 'Tue' },
+  { value: 3, label: 'Wed' },
+  { value: 4, label: 'Thu' },
+  { value: 5, label: 'Fri' },
+  { value: 6, label: 'Sat' },
+];
+
 interface FoodFormProps {
   food?: Food;
   onSuccess?: () => void;
@@ -55,7 +106,14 @@ export default function FoodForm({ food, onSuccess }: FoodFormProps) {
   const [customTargetAmount, setCustomTargetAmount] = useState(false);
   const [customStartTime, setCustomStartTime] = useState(false);
   const [customTargetTime, setCustomTargetTime] = useState(false);
+  const [customFrequency, setCustomFrequency] = useState(
+    !!food && !frequencyPresets.some(preset => preset.label === food.frequency)
+  );
+  const [selectedTemplate, setSelectedTemplate] = useState("");
+  const [newRestRule, setNewRestRule] = useState("");
   const [saveStep, setSaveStep] = useState<'idle' | 'saving' | 'scheduling' | 'complete'>('idle');
+  // Edit waiting for the user to confirm what it does to upcoming doses
+  const [pendingUpdate, setPendingUpdate] = useState<{ data: FormData; diff: ScheduleDiff } | null>(null);
   const { toast } = useToast();
   const queryClient = useQueryClient();
 
@@ -66,12 +124,20 @@ export default function FoodForm({ food, onSuccess }: FoodFormProps) {
       instructions: food?.instructions || "",
       color: food?.color || 'blue',
       frequency: food?.frequency || "Every day",
+      recurrence: food ? getRecurrence(food) : frequencyPresets[0].rule,
+      doseSlots: food?.doseSlots ?? null,
       startDate: food?.startDate || formatDate(new Date()),
       mealType: food?.mealType || "any",
+      productId: food?.productId ?? null,
       // Dose progression defaults
       startingAmount: food?.startingAmount || "",
       targetAmount: food?.targetAmount || "",
-      progressionType: (food?.progressionType as "buildup" | "static" | "reduction" | "custom") || "static",
+      progressionType: (food?.progressionType as "buildup" | "static" | "reduction" | "custom" | "steps") || "static",
+      doseSteps: food?.doseSteps ?? null,
+      missedDoseRules: food?.missedDoseRules ?? null,
+      reactionActions: food?.reactionActions ?? null,
+      observationMinutes: food?.observationMinutes ?? null,
+      restRules: food?.restRules ?? null,
       progressionDuration: food?.progressionDuration || undefined,
       // Time scheduling defaults
       startTime: food?.startTime || "",
@@ -81,6 +147,90 @@ export default function FoodForm({ food, onSuccess }: FoodFormProps) {
     },
   });
 
+  const { data: templates } = useQuery<ProtocolTemplatesResponse>({
+    queryKey: ['/api/protocol-templates'],
+  });
+
+  const saveTemplateMutation = useMutation({
+    mutationFn: async (name: string) => {
+      const values = form.getValues();
+      const settings = Object.fromEntries(
+        protocolSettingsSchema.keyof().options.map(key => [key, values[key] ?? null])
+      );
+      return apiRequest('POST', '/api/protocol-templates', { name, settings });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/protocol-templates'] });
+      toast({
+        title: "Template saved",
+        description: "You can now pick this protocol when adding foods.",
+      });
+    },
+    onError: () => {
+      toast({
+        title: "Error",
+        description: "Failed to save template.",
+        variant: "destructive",
+      });
+    }
+  });
+
+  const deleteTemplateMutation = useMutation({
+    mutationFn: async (id: number) => {
+      return apiRequest('DELETE', `/api/protocol-templates/${id}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/protocol-templates'] });
+      setSelectedTemplate("");
+      toast({
+        title: "Template deleted",
+        description: "The saved template has been removed.",
+      });
+    },
+    onError: () => {
+      toast({
+        title: "Error",
+        description: "Failed to delete template.",
+        variant: "destructive",
+      });
+    }
+  });
+
+  // Prefill progression, frequency and timing from a template
+  const applyTemplate = (value: string) => {
+    setSelectedTemplate(value);
+    const [source, id] = value.split(':');
+    const settings: ProtocolSettings | undefined = source === 'builtin'
+      ? templates?.builtIn.find(t => t.key === id)?.settings
+      : templates?.saved.find(t => t.id.toString() === id)?.settings;
+    if (!settings) return;
+
+    form.setValue('frequency', settings.frequency);
+    form.setValue('recurrence', settings.recurrence ?? null);
+    form.setValue('doseSlots', settings.doseSlots ?? null);
+    form.setValue('startingAmount', settings.startingAmount ?? undefined);
+    form.setValue('targetAmount', settings.targetAmount ?? undefined);
+    form.setValue('progressionType', (settings.progressionType ?? undefined) as FormData['progressionType']);
+    form.setValue('progressionDuration', settings.progressionDuration ?? undefined);
+    form.setValue('doseSteps', settings.doseSteps ?? null);
+    form.setValue('startTime', settings.startTime ?? undefined);
+    form.setValue('endTime', settings.endTime ?? undefined);
+    form.setValue('timeProgression', (settings.timeProgression ?? undefined) as FormData['timeProgression']);
+    form.setValue('timeProgressionAmount', settings.timeProgressionAmount ?? undefined);
+    setCustomFrequency(!frequencyPresets.some(preset => preset.label === settings.frequency));
+    setCustomStartAmount(false);
+    setCustomTargetAmount(false);
+    setCustomStartTime(false);
+    setCustomTargetTime(false);
+  };
+
+  const handleSaveTemplate = () => {
+    const name = prompt('Name this protocol template:');
+    if (name?.trim()) {
+      saveTemplateMutation.mutate(name.trim());
+    }
+  };
+
   const createMutation = useMutation({
     mutationFn: async (data: FormData) => {
       setSaveStep('saving');
@@ -95,17 +245,13 @@ export default function FoodForm({ food, onSuccess }: FoodFormProps) {
       setSaveStep('scheduling');
       toast({
         title: "Generating schedule...",
-        description: "Creating your food schedule for the next 3 months.",
+        description: "Creating your upcoming doses.",
       });
       
-      // Generate schedule for the new food
-      const endDate = new Date();
-      endDate.setMonth(endDate.getMonth() + 3); // 3 months ahead
-      
+      // Generate the schedule up to the rolling horizon; the server keeps it topped up from there
       try {
         await apiRequest('POST', `/api/foods/${newFood.id}/generate-schedule`, {
           startDate: data.startDate,
-          endDate: formatDate(endDate),
         });
       } catch (scheduleError) {
         // Food was saved but schedule failed - still show success but warn about schedule
@@ -125,6 +271,7 @@ export default function FoodForm({ food, onSuccess }: FoodFormProps) {
       queryClient.invalidateQueries({ queryKey: ['/api/schedule'] });
       form.reset();
       setSelectedColor('blue');
+      setCustomFrequency(false);
       setSaveStep('idle');
       onSuccess?.();
       toast({
@@ -143,12 +290,36 @@ export default function FoodForm({ food, onSuccess }: FoodFormProps) {
     }
   });
 
+  // Preview what the edit does to upcoming doses; confirm first when it changes any
+  const scheduleDiffMutation = useMutation({
+    mutationFn: async (data: FormData): Promise<ScheduleDiff | null> => {
+      const response = await apiRequest('POST', `/api/foods/${food!.id}/schedule-diff`, data);
+      return response.json();
+    },
+    onSuccess: (diff, data) => {
+      if (diff && (diff.added.length > 0 || diff.removed.length > 0 || diff.changed.length > 0)) {
+        setPendingUpdate({ data, diff });
+      } else {
+        updateMutation.mutate(data);
+      }
+    },
+    onError: () => {
+      toast({
+        title: "Error",
+        description: "Failed to check how this changes the schedule.",
+        variant: "destructive",
+      });
+    }
+  });
+
   const updateMutation = useMutation({
     mutationFn: async (data: FormData) => {
       return apiRequest('PATCH', `/api/foods/${food!.id}`, data);
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ['/api/foods'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/schedule'] });
+      setPendingUpdate(null);
       onSuccess?.();
       toast({
         title: "Food updated",
@@ -164,15 +335,85 @@ export default function FoodForm({ food, onSuccess }: FoodFormProps) {
     }
   });
 
+  const recurrence = form.watch('recurrence') ?? frequencyPresets[0].rule;
+
+  // Keep the structured rule and its display label in sync
+  const updateRecurrence = (changes: Partial<RecurrenceRule>) => {
+    const next = { ...recurrence, ...changes };
+    if (next.unit === 'day') delete next.weekdays;
+    form.setValue('recurrence', next);
+    form.setValue('frequency', describeRecurrence(next));
+  };
+
+  const toggleWeekday = (day: number) => {
+    const weekdays = recurrence.weekdays ?? [];
+    updateRecurrence({
+      weekdays: weekdays.includes(day)
+        ? weekdays.filter(d => d !== day)
+        : [...weekdays, day].sort((a, b) => a - b),
+    });
+  };
+
+  const progressionType = form.watch('progressionType');
+  const doseSteps = form.watch('doseSteps') ?? [];
+  const startingQuantity = parseQuantity(form.watch('startingAmount') ?? "");
+  const targetQuantity = parseQuantity(form.watch('targetAmount') ?? "");
+  // Amounts in different kinds of units (e.g. tsp and mg) can't be progressed between
+  const unitMismatch = !!startingQuantity && !!targetQuantity && !canConvert(startingQuantity.unit, targetQuantity.unit);
+
+  // Step protocols run for the sum of their hold durations
+  const updateDoseSteps = (steps: DoseStep[]) => {
+    form.setValue('doseSteps', steps);
+    form.setValue('progressionDuration', steps.reduce((total: number, step) => total + step.days, 0) || undefined);
+  };
+
+  const missedDoseRules = form.watch('missedDoseRules') ?? [];
+
+  const updateMissedDoseRules = (rules: MissedDoseRule[]) => {
+    form.setValue('missedDoseRules', rules.length > 0 ? rules : null);
+  };
+
+  const reactionActions = form.watch('reactionActions') ?? defaultReactionActions;
+
+  const observationMinutes = form.watch('observationMinutes') ?? DEFAULT_OBSERVATION_MINUTES;
+  const restRules = form.watch('restRules') ?? defaultRestRules;
+  const restRuleOptions = Array.from(new Set([...defaultRestRules, ...restRules]));
+
+  const toggleRestRule = (rule: string) => {
+    form.setValue('restRules', restRules.includes(rule) ? restRules.filter(r => r !== rule) : [...restRules, rule]);
+  };
+
+  const addRestRule = () => {
+    const rule = newRestRule.trim();
+    if (rule && !restRules.includes(rule)) {
+      form.setValue('restRules', [...restRules, rule]);
+    }
+    setNewRestRule("");
+  };
+
+  const doseSlots = form.watch('doseSlots') ?? [];
+  const timeWindowDoses = dosesToReachEndTime({
+    startTime: form.watch('startTime'),
+    endTime: form.watch('endTime'),
+    timeProgression: form.watch('timeProgression'),
+    timeProgressionAmount: form.watch('timeProgressionAmount'),
+  });
+
+  const updateDoseSlot = (index: number, changes: Partial<DoseSlot>) => {
+    const next = Array.from({ length: recurrence.dosesPerDay }, (_, i) => doseSlots[i] ?? {});
+    next[index] = { ...next[index], ...changes };
+    form.setValue('doseSlots', next);
+  };
+
   const onSubmit = (data: FormData) => {
     if (food) {
-      updateMutation.mutate(data);
+      scheduleDiffMutation.mutate(data);
     } else {
       createMutation.mutate(data);
     }
   };
 
-  const isLoading = createMutation.isPending || updateMutation.isPending;
+  const isLoading = createMutation.isPending || updateMutation.isPending || scheduleDiffMutation.isPending;
   
   const getSaveButtonText = () => {
     if (saveStep === 'saving') return 'Saving Food...';
@@ -249,6 +490,69 @@ export default function FoodForm({ food, onSuccess }: FoodFormProps) {
           )}
         />
 
+        {/* Protocol Template Picker */}
+        <div className="space-y-2 p-4 bg-green-50 dark:bg-green-950/20 rounded-xl border">
+          <h3 className="text-sm font-medium text-gray-700 dark:text-gray-300">
+            📋 Protocol Template (Optional)
+          </h3>
+          <p className="text-xs text-gray-500">
+            Prefill the frequency, dose progression and timing from a common protocol or one you saved
+          </p>
+          <div className="flex space-x-2">
+            <Select value={selectedTemplate} onValueChange={applyTemplate}>
+              <SelectTrigger className="flex-1">
+                <SelectValue placeholder="Start from a template..." />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectGroup>
+                  <SelectLabel>Built-in protocols</SelectLabel>
+                  {templates?.builtIn.map((template) => (
+                    <SelectItem key={template.key} value={`builtin:${template.key}`}>
+                      {template.name}
+                    </SelectItem>
+                  ))}
+                </SelectGroup>
+                {!!templates?.saved.length && (
+                  <SelectGroup>
+                    <SelectLabel>My templates</SelectLabel>
+                    {templates.saved.map((template) => (
+                      <SelectItem key={template.id} value={`saved:${template.id}`}>
+                        {template.name}
+                      </SelectItem>
+                    ))}
+                  </SelectGroup>
+                )}
+              </SelectContent>
+            </Select>
+            {selectedTemplate.startsWith('saved:') && (
+              <Button
+                type="button"
+                variant="ghost"
+                size="sm"
+                onClick={() => deleteTemplateMutation.mutate(parseInt(selectedTemplate.split(':')[1]))}
+                className="text-red-500 hover:text-red-600"
+                disabled={deleteTemplateMutation.isPending}
+              >
+                Delete
+              </Button>
+            )}
+          </div>
+          {selectedTemplate.startsWith('builtin:') && (
+            <p className="text-xs text-gray-500">
+              {templates?.builtIn.find(t => `builtin:${t.key}` === selectedTemplate)?.description}
+            </p>
+          )}
+          <Button
+            type="button"
+            variant="outline"
+            size="sm"
+            onClick={handleSaveTemplate}
+            disabled={saveTemplateMutation.isPending}
+          >
+            Save Current Settings as Template
+          </Button>
+        </div>
+
         <FormField
           control={form.control}
           name="frequency"
@@ -256,23 +560,101 @@ export default function FoodForm({ food, onSuccess }: FoodFormProps) {
             <FormItem>
               <FormLabel>How Often</FormLabel>
               <FormControl>
-                <Select value={field.value} onValueChange={field.onChange}>
-                  <SelectTrigger>
-                    <SelectValue placeholder="Select frequency" />
-                  </SelectTrigger>
-                  <SelectContent>
-                    <SelectItem value="Every day">📅 Every day</SelectItem>
-                    <SelectItem value="2 times a week">📅 2 times a week</SelectItem>
-                    <SelectItem value="3 times a week">📅 3 times a week</SelectItem>
-                    <SelectItem value="4 times a week">📅 4 times a week</SelectItem>
-                    <SelectItem value="5 times a week">📅 5 times a week</SelectItem>
-                    <SelectItem value="6 times a week">📅 6 times a week</SelectItem>
-                    <SelectItem value="Once a week">📅 Once a week</SelectItem>
-                    <SelectItem value="Every 2 days">📅 Every 2 days</SelectItem>
-                    <SelectItem value="Every 3 days">📅 Every 3 days</SelectItem>
-                    <SelectItem value="Twice daily">📅 Twice daily</SelectItem>
-                  </SelectContent>
-                </Select>
+                {customFrequency ? (
+                  <div className="space-y-2">
+                    <div className="flex items-center gap-2">
+                      <span className="text-sm">Every</span>
+                      <Input
+                        type="number"
+                        min={1}
+                        max={52}
+                        className="w-20"
+                        value={recurrence.interval}
+                        onChange={(e) => updateRecurrence({ interval: Math.max(1, parseInt(e.target.value) || 1) })}
+                      />
+                      <Select
+                        value={recurrence.unit}
+                        onValueChange={(value: 'day' | 'week') => updateRecurrence({ unit: value })}
+                      >
+                        <SelectTrigger className="w-28">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value="day">day(s)</SelectItem>
+                          <SelectItem value="week">week(s)</SelectItem>
+                        </SelectContent>
+                      </Select>
+                    </div>
+                    {recurrence.unit === 'week' && (
+                      <div className="flex flex-wrap gap-1">
+                        {weekdayOptions.map((day) => (
+                          <Button
+                            key={day.value}
+                            type="button"
+                            size="sm"
+                            variant={recurrence.weekdays?.includes(day.value) ? 'default' : 'outline'}
+                            onClick={() => toggleWeekday(day.value)}
+                          >
+                            {day.label}
+                          </Button>
+                        ))}
+                      </div>
+                    )}
+                    <Select
+                      value={recurrence.dosesPerDay.toString()}
+                      onValueChange={(value) => updateRecurrence({ dosesPerDay: parseInt(value) })}
+                    >
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="1">1 dose a day</SelectItem>
+                        <SelectItem value="2">2 doses a day</SelectItem>
+                        <SelectItem value="3">3 doses a day</SelectItem>
+                        <SelectItem value="4">4 doses a day</SelectItem>
+                      </SelectContent>
+                    </Select>
+                    <p className="text-xs text-gray-500">{field.value}</p>
+                    <Button
+                      type="button"
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => {
+                        setCustomFrequency(false);
+                        form.setValue('recurrence', frequencyPresets[0].rule);
+                        field.onChange(frequencyPresets[0].label);
+                      }}
+                      className="text-xs text-blue-600 hover:text-blue-700"
+                    >
+                      ← Back to presets
+                    </Button>
+                  </div>
+                ) : (
+                  <Select
+                    value={field.value}
+                    onValueChange={(value) => {
+                      if (value === "custom") {
+                        setCustomFrequency(true);
+                        return;
+                      }
+                      const preset = frequencyPresets.find(p => p.label === value);
+                      if (preset) {
+                        form.setValue('recurrence', preset.rule);
+                      }
+                      field.onChange(value);
+                    }}
+                  >
+                    <SelectTrigger>
+                      <SelectValue placeholder="Select frequency" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {frequencyPresets.map((preset) => (
+                        <SelectItem key={preset.label} value={preset.label}>📅 {preset.label}</SelectItem>
+                      ))}
+                      <SelectItem value="custom">✏️ Custom schedule</SelectItem>
+                    </SelectContent>
+                  </Select>
+                )}
               </FormControl>
               <FormMessage />
             </FormItem>
@@ -327,142 +709,169 @@ export default function FoodForm({ food, onSuccess }: FoodFormProps) {
             Set up a buildup schedule that gradually increases amounts over time
           </p>
 
-          <div className="grid grid-cols-2 gap-3">
-            <FormField
-              control={form.control}
-              name="startingAmount"
-              render={({ field }) => (
-                <FormItem>
-                  <FormLabel className="text-sm">Starting Amount</FormLabel>
-                  <FormControl>
-                    {customStartAmount ? (
-                      <div className="space-y-2">
-                        <Input 
-                          placeholder="e.g., 0.25 teaspoons or 2 pieces" 
-                          {...field}
-                        />
-                        <Button
-                          type="button"
-                          variant="ghost"
-                          size="sm"
-                          onClick={() => {
-                            setCustomStartAmount(false);
-                            field.onChange("");
+          <FormField
+            control={form.control}
+            name="productId"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel className="text-sm">Allergen Product</FormLabel>
+                <FormControl>
+                  <ProductSelect value={field.value ?? null} onChange={field.onChange} />
+                </FormControl>
+                {field.value && (
+                  <p className="text-xs text-gray-500">
+                    Enter amounts and protocol steps in mg of protein, e.g. "3 mg". Each dose shows how much product to measure out.
+                  </p>
+                )}
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+
+          {progressionType !== 'steps' && (
+            <div className="grid grid-cols-2 gap-3">
+              <FormField
+                control={form.control}
+                name="startingAmount"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel className="text-sm">Starting Amount</FormLabel>
+                    <FormControl>
+                      {customStartAmount ? (
+                        <div className="space-y-2">
+                          <Input 
+                            placeholder="e.g., 0.25 teaspoons or 2 pieces" 
+                            {...field}
+                          />
+                          <Button
+                            type="button"
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => {
+                              setCustomStartAmount(false);
+                              field.onChange("");
+                            }}
+                            className="text-xs text-blue-600 hover:text-blue-700"
+                          >
+                            ← Back to presets
+                          </Button>
+                        </div>
+                      ) : (
+                        <Select 
+                          value={field.value} 
+                          onValueChange={(value) => {
+                            if (value === "custom") {
+                              setCustomStartAmount(true);
+                              field.onChange("");
+                            } else {
+                              field.onChange(value);
+                            }
                           }}
-                          className="text-xs text-blue-600 hover:text-blue-700"
                         >
-                          ← Back to presets
-                        </Button>
-                      </div>
-                    ) : (
-                      <Select 
-                        value={field.value} 
-                        onValueChange={(value) => {
-                          if (value === "custom") {
-                            setCustomStartAmount(true);
-                            field.onChange("");
-                          } else {
-                            field.onChange(value);
-                          }
-                        }}
-                      >
-                        <SelectTrigger>
-                          <SelectValue placeholder="Select starting dose" />
-                        </SelectTrigger>
-                        <SelectContent>
-                          <SelectItem value="0.01 teaspoon">0.01 teaspoon (tiny)</SelectItem>
-                          <SelectItem value="0.05 teaspoon">0.05 teaspoon (pinch)</SelectItem>
-                          <SelectItem value="0.1 teaspoon">0.1 teaspoon (small)</SelectItem>
-                          <SelectItem value="0.25 teaspoon">1/4 teaspoon</SelectItem>
-                          <SelectItem value="0.5 teaspoon">1/2 teaspoon</SelectItem>
-                          <SelectItem value="1 teaspoon">1 teaspoon</SelectItem>
-                          <SelectItem value="1.5 teaspoon">1.5 teaspoons</SelectItem>
-                          <SelectItem value="2 teaspoons">2 teaspoons</SelectItem>
-                          <SelectItem value="0.5 tablespoon">1/2 tablespoon</SelectItem>
-                          <SelectItem value="1 tablespoon">1 tablespoon</SelectItem>
-                          <SelectItem value="1 piece">1 piece/serving</SelectItem>
-                          <SelectItem value="1 ml">1 ml (liquid)</SelectItem>
-                          <SelectItem value="5 ml">5 ml (liquid)</SelectItem>
-                          <SelectItem value="10 ml">10 ml (liquid)</SelectItem>
-                          <SelectItem value="custom">✏️ Enter custom amount</SelectItem>
-                        </SelectContent>
-                      </Select>
-                    )}
-                  </FormControl>
-                  <FormMessage />
-                </FormItem>
-              )}
-            />
+                          <SelectTrigger>
+                            <SelectValue placeholder="Select starting dose" />
+                          </SelectTrigger>
+                          <SelectContent>
+                            <SelectItem value="0.01 teaspoon">0.01 teaspoon (tiny)</SelectItem>
+                            <SelectItem value="0.05 teaspoon">0.05 teaspoon (pinch)</SelectItem>
+                            <SelectItem value="0.1 teaspoon">0.1 teaspoon (small)</SelectItem>
+                            <SelectItem value="0.25 teaspoon">1/4 teaspoon</SelectItem>
+                            <SelectItem value="0.5 teaspoon">1/2 teaspoon</SelectItem>
+                            <SelectItem value="1 teaspoon">1 teaspoon</SelectItem>
+                            <SelectItem value="1.5 teaspoon">1.5 teaspoons</SelectItem>
+                            <SelectItem value="2 teaspoons">2 teaspoons</SelectItem>
+                            <SelectItem value="0.5 tablespoon">1/2 tablespoon</SelectItem>
+                            <SelectItem value="1 tablespoon">1 tablespoon</SelectItem>
+                            <SelectItem value="1 piece">1 piece/serving</SelectItem>
+                            <SelectItem value="1 ml">1 ml (liquid)</SelectItem>
+                            <SelectItem value="5 ml">5 ml (liquid)</SelectItem>
+                            <SelectItem value="10 ml">10 ml (liquid)</SelectItem>
+                            <SelectItem value="custom">✏️ Enter custom amount</SelectItem>
+                          </SelectContent>
+                        </Select>
+                      )}
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
 
-            <FormField
-              control={form.control}
-              name="targetAmount"
-              render={({ field }) => (
-                <FormItem>
-                  <FormLabel className="text-sm">Target Amount</FormLabel>
-                  <FormControl>
-                    {customTargetAmount ? (
-                      <div className="space-y-2">
-                        <Input 
-                          placeholder="e.g., 1.5 tablespoons or 3 pieces" 
-                          {...field}
-                        />
-                        <Button
-                          type="button"
-                          variant="ghost"
-                          size="sm"
-                          onClick={() => {
-                            setCustomTargetAmount(false);
-                            field.onChange("");
+              <FormField
+                control={form.control}
+                name="targetAmount"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel className="text-sm">Target Amount</FormLabel>
+                    <FormControl>
+                      {customTargetAmount ? (
+                        <div className="space-y-2">
+                          <Input 
+                            placeholder="e.g., 1.5 tablespoons or 3 pieces" 
+                            {...field}
+                          />
+                          <Button
+                            type="button"
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => {
+                              setCustomTargetAmount(false);
+                              field.onChange("");
+                            }}
+                            className="text-xs text-blue-600 hover:text-blue-700"
+                          >
+                            ← Back to presets
+                          </Button>
+                        </div>
+                      ) : (
+                        <Select 
+                          value={field.value} 
+                          onValueChange={(value) => {
+                            if (value === "custom") {
+                              setCustomTargetAmount(true);
+                              field.onChange("");
+                            } else {
+                              field.onChange(value);
+                            }
                           }}
-                          className="text-xs text-blue-600 hover:text-blue-700"
                         >
-                          ← Back to presets
-                        </Button>
-                      </div>
-                    ) : (
-                      <Select 
-                        value={field.value} 
-                        onValueChange={(value) => {
-                          if (value === "custom") {
-                            setCustomTargetAmount(true);
-                            field.onChange("");
-                          } else {
-                            field.onChange(value);
-                          }
-                        }}
-                      >
-                        <SelectTrigger>
-                          <SelectValue placeholder="Select target dose" />
-                        </SelectTrigger>
-                        <SelectContent>
-                          <SelectItem value="0.5 teaspoon">1/2 teaspoon</SelectItem>
-                          <SelectItem value="1 teaspoon">1 teaspoon</SelectItem>
-                          <SelectItem value="2 teaspoons">2 teaspoons</SelectItem>
-                          <SelectItem value="1 tablespoon">1 tablespoon</SelectItem>
-                          <SelectItem value="2 tablespoons">2 tablespoons</SelectItem>
-                          <SelectItem value="3 tablespoons">3 tablespoons</SelectItem>
-                          <SelectItem value="0.25 cup">1/4 cup</SelectItem>
-                          <SelectItem value="0.5 cup">1/2 cup</SelectItem>
-                          <SelectItem value="1 cup">1 cup (full serving)</SelectItem>
-                          <SelectItem value="1 piece">1 piece/serving</SelectItem>
-                          <SelectItem value="2 pieces">2 pieces</SelectItem>
-                          <SelectItem value="1 slice">1 slice</SelectItem>
-                          <SelectItem value="2 slices">2 slices</SelectItem>
-                          <SelectItem value="30 ml">30 ml (liquid)</SelectItem>
-                          <SelectItem value="50 ml">50 ml (liquid)</SelectItem>
-                          <SelectItem value="100 ml">100 ml (liquid)</SelectItem>
-                          <SelectItem value="250 ml">250 ml (1 cup liquid)</SelectItem>
-                          <SelectItem value="custom">✏️ Enter custom amount</SelectItem>
-                        </SelectContent>
-                      </Select>
-                    )}
-                  </FormControl>
-                  <FormMessage />
-                </FormItem>
-              )}
-            />
-          </div>
+                          <SelectTrigger>
+                            <SelectValue placeholder="Select target dose" />
+                          </SelectTrigger>
+                          <SelectContent>
+                            <SelectItem value="0.5 teaspoon">1/2 teaspoon</SelectItem>
+                            <SelectItem value="1 teaspoon">1 teaspoon</SelectItem>
+                            <SelectItem value="2 teaspoons">2 teaspoons</SelectItem>
+                            <SelectItem value="1 tablespoon">1 tablespoon</SelectItem>
+                            <SelectItem value="2 tablespoons">2 tablespoons</SelectItem>
+                            <SelectItem value="3 tablespoons">3 tablespoons</SelectItem>
+                            <SelectItem value="0.25 cup">1/4 cup</SelectItem>
+                            <SelectItem value="0.5 cup">1/2 cup</SelectItem>
+                            <SelectItem value="1 cup">1 cup (full serving)</SelectItem>
+                            <SelectItem value="1 piece">1 piece/serving</SelectItem>
+                            <SelectItem value="2 pieces">2 pieces</SelectItem>
+                            <SelectItem value="1 slice">1 slice</SelectItem>
+                            <SelectItem value="2 slices">2 slices</SelectItem>
+                            <SelectItem value="30 ml">30 ml (liquid)</SelectItem>
+                            <SelectItem value="50 ml">50 ml (liquid)</SelectItem>
+                            <SelectItem value="100 ml">100 ml (liquid)</SelectItem>
+                            <SelectItem value="250 ml">250 ml (1 cup liquid)</SelectItem>
+                            <SelectItem value="custom">✏️ Enter custom amount</SelectItem>
+                          </SelectContent>
+                        </Select>
+                      )}
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+          )}
+
+          {progressionType !== 'steps' && unitMismatch && (
+            <p className="text-xs text-amber-600">
+              ⚠️ {startingQuantity!.unit} can't be converted to {targetQuantity!.unit}. Use the same kind of measure for both amounts so the dose can build up.
+            </p>
+          )}
 
           <div className="grid grid-cols-2 gap-3">
             <FormField
@@ -481,6 +890,7 @@ export default function FoodForm({ food, onSuccess }: FoodFormProps) {
                         <SelectItem value="buildup">📈 Buildup (increase over time)</SelectItem>
                         <SelectItem value="reduction">📉 Reduction (decrease over time)</SelectItem>
                         <SelectItem value="custom">🎯 Custom progression</SelectItem>
+                        <SelectItem value="steps">🪜 Step protocol (fixed dose steps)</SelectItem>
                       </SelectContent>
                     </Select>
                   </FormControl>
@@ -489,43 +899,230 @@ export default function FoodForm({ food, onSuccess }: FoodFormProps) {
               )}
             />
 
-            <FormField
-              control={form.control}
-              name="progressionDuration"
-              render={({ field }) => (
-                <FormItem>
-                  <FormLabel className="text-sm">Duration</FormLabel>
-                  <FormControl>
-                    <Select 
-                      value={field.value?.toString()} 
-                      onValueChange={(value) => field.onChange(value ? parseInt(value) : undefined)}
-                    >
-                      <SelectTrigger>
-                        <SelectValue placeholder="Select duration" />
-                      </SelectTrigger>
-                      <SelectContent>
-                        <SelectItem value="1">1 day</SelectItem>
-                        <SelectItem value="3">3 days</SelectItem>
-                        <SelectItem value="5">5 days</SelectItem>
-                        <SelectItem value="7">1 week (7 days)</SelectItem>
-                        <SelectItem value="10">10 days</SelectItem>
-                        <SelectItem value="14">2 weeks (14 days)</SelectItem>
-                        <SelectItem value="21">3 weeks (21 days)</SelectItem>
-                        <SelectItem value="30">1 month (30 days)</SelectItem>
-                        <SelectItem value="45">6 weeks (45 days)</SelectItem>
-                        <SelectItem value="60">2 months (60 days)</SelectItem>
-                        <SelectItem value="90">3 months (90 days)</SelectItem>
-                        <SelectItem value="120">4 months (120 days)</SelectItem>
-                        <SelectItem value="180">6 months (180 days)</SelectItem>
-                        <SelectItem value="365">1 year (365 days)</SelectItem>
-                        <SelectItem value="999999">♾️ Forever (no end date)</SelectItem>
-                      </SelectContent>
-                    </Select>
-                  </FormControl>
-                  <FormMessage />
-                </FormItem>
+            {progressionType !== 'steps' && (
+              <FormField
+                control={form.control}
+                name="progressionDuration"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel className="text-sm">Duration</FormLabel>
+                    <FormControl>
+                      <Select 
+                        value={field.value?.toString()} 
+                        onValueChange={(value) => field.onChange(value ? parseInt(value) : undefined)}
+                      >
+                        <SelectTrigger>
+                          <SelectValue placeholder="Select duration" />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value="1">1 day</SelectItem>
+                          <SelectItem value="3">3 days</SelectItem>
+                          <SelectItem value="5">5 days</SelectItem>
+                          <SelectItem value="7">1 week (7 days)</SelectItem>
+                          <SelectItem value="10">10 days</SelectItem>
+                          <SelectItem value="14">2 weeks (14 days)</SelectItem>
+                          <SelectItem value="21">3 weeks (21 days)</SelectItem>
+                          <SelectItem value="30">1 month (30 days)</SelectItem>
+                          <SelectItem value="45">6 weeks (45 days)</SelectItem>
+                          <SelectItem value="60">2 months (60 days)</SelectItem>
+                          <SelectItem value="90">3 months (90 days)</SelectItem>
+                          <SelectItem value="120">4 months (120 days)</SelectItem>
+                          <SelectItem value="180">6 months (180 days)</SelectItem>
+                          <SelectItem value="365">1 year (365 days)</SelectItem>
+                          <SelectItem value="999999">♾️ Forever (no end date)</SelectItem>
+                        </SelectContent>
+                      </Select>
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            )}
+          </div>
+          {progressionType === 'steps' && (
+            <div className="space-y-2">
+              <p className="text-sm font-medium">Protocol Steps</p>
+              <p className="text-xs text-gray-500">
+                Each dose is held for at least the given number of days before moving to the next step
+              </p>
+              {doseSteps.map((step, index) => (
+                <div key={index} className="grid grid-cols-[3rem_1fr_6rem_auto] gap-2 items-center">
+                  <span className="text-sm">#{index + 1}</span>
+                  <Input
+                    placeholder="e.g., 3 mg"
+                    value={step.amount}
+                    onChange={(e) => updateDoseSteps(doseSteps.map((s, i) => i === index ? { ...s, amount: e.target.value } : s))}
+                  />
+                  <Input
+                    type="number"
+                    min={1}
+                    value={step.days}
+                    onChange={(e) => updateDoseSteps(doseSteps.map((s, i) => i === index ? { ...s, days: Math.max(1, parseInt(e.target.value) || 1) } : s))}
+                  />
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => updateDoseSteps(doseSteps.filter((_, i) => i !== index))}
+                    className="text-red-500 hover:text-red-600"
+                  >
+                    Remove
+                  </Button>
+                </div>
+              ))}
+              <Button
+                type="button"
+                variant="outline"
+                size="sm"
+                onClick={() => updateDoseSteps([...doseSteps, { amount: "", days: 14 }])}
+              >
+                + Add Step
+              </Button>
+            </div>
+          )}
+          <div className="space-y-2">
+            <p className="text-sm font-medium">Schedule Preview</p>
+            <SchedulePreview values={form.watch()} />
+          </div>
+
+          <div className="space-y-2">
+            <p className="text-sm font-medium">Missed-Dose Rules</p>
+            <p className="text-xs text-gray-500">
+              After several missed days in a row, upcoming doses are adjusted and flagged on the calendar
+            </p>
+            {missedDoseRules.map((rule, index) => (
+              <div key={index} className="grid grid-cols-[auto_4rem_auto_1fr_auto] gap-2 items-center text-sm">
+                <span>Miss</span>
+                <Input
+                  type="number"
+                  min={1}
+                  value={rule.minMissedDays}
+                  onChange={(e) => updateMissedDoseRules(missedDoseRules.map((r, i) => i === index ? { ...r, minMissedDays: Math.max(1, parseInt(e.target.value) || 1) } : r))}
+                />
+                <span>+ days →</span>
+                <Select
+                  value={rule.action}
+                  onValueChange={(action: MissedDoseRule['action']) => updateMissedDoseRules(missedDoseRules.map((r, i) => i === index ? { ...r, action } : r))}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="drop_step">⬇️ Drop one step</SelectItem>
+                    <SelectItem value="contact_allergist">📞 Contact allergist</SelectItem>
+                  </SelectContent>
+                </Select>
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => updateMissedDoseRules(missedDoseRules.filter((_, i) => i !== index))}
+                  className="text-red-500 hover:text-red-600"
+                >
+                  Remove
+                </Button>
+              </div>
+            ))}
+            <div className="flex gap-2">
+              <Button
+                type="button"
+                variant="outline"
+                size="sm"
+                onClick={() => updateMissedDoseRules([...missedDoseRules, { minMissedDays: 3, action: "drop_step" }])}
+              >
+                + Add Rule
+              </Button>
+              {missedDoseRules.length === 0 && (
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => updateMissedDoseRules([
+                    { minMissedDays: 3, action: "drop_step" },
+                    { minMissedDays: 7, action: "contact_allergist" },
+                  ])}
+                  className="text-blue-600 hover:text-blue-700"
+                >
+                  Use common OIT rules
+                </Button>
               )}
-            />
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <p className="text-sm font-medium">After a Reaction</p>
+            <p className="text-xs text-gray-500">
+              What happens to upcoming doses when a reaction is logged, by its grade
+            </p>
+            {(['mild', 'moderate', 'severe'] as const).map((grade) => (
+              <div key={grade} className="grid grid-cols-[6rem_1fr] gap-2 items-center text-sm">
+                <span className="capitalize">{grade}</span>
+                <Select
+                  value={reactionActions[grade]}
+                  onValueChange={(action: ReactionAction) => form.setValue('reactionActions', { ...reactionActions, [grade]: action })}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {(Object.keys(reactionActionLabels) as ReactionAction[]).map((action) => (
+                      <SelectItem key={action} value={action}>{reactionActionLabels[action]}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            ))}
+          </div>
+
+          <div className="space-y-2">
+            <p className="text-sm font-medium">Observation After Each Dose</p>
+            <p className="text-xs text-gray-500">
+              A timer starts when a dose is marked done, then asks about symptoms
+            </p>
+            <Select
+              value={String(observationMinutes)}
+              onValueChange={(value) => form.setValue('observationMinutes', parseInt(value))}
+            >
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="0">No timer</SelectItem>
+                <SelectItem value="30">30 minutes</SelectItem>
+                <SelectItem value="60">1 hour</SelectItem>
+                <SelectItem value="90">1.5 hours</SelectItem>
+                <SelectItem value="120">2 hours</SelectItem>
+                <SelectItem value="180">3 hours</SelectItem>
+              </SelectContent>
+            </Select>
+            {observationMinutes > 0 && (
+              <>
+                <div className="flex flex-wrap gap-1">
+                  {restRuleOptions.map((rule) => (
+                    <Button
+                      key={rule}
+                      type="button"
+                      size="sm"
+                      variant={restRules.includes(rule) ? 'default' : 'outline'}
+                      className="text-xs"
+                      onClick={() => toggleRestRule(rule)}
+                    >
+                      {rule}
+                    </Button>
+                  ))}
+                </div>
+                <div className="flex gap-2">
+                  <Input
+                    placeholder="Another rule, e.g. No hot drinks"
+                    value={newRestRule}
+                    onChange={(e) => setNewRestRule(e.target.value)}
+                  />
+                  <Button type="button" variant="outline" onClick={addRestRule} disabled={!newRestRule.trim()}>
+                    Add
+                  </Button>
+                </div>
+              </>
+            )}
           </div>
         </div>
 
@@ -674,6 +1271,30 @@ export default function FoodForm({ food, onSuccess }: FoodFormProps) {
             />
           </div>
 
+          {recurrence.dosesPerDay > 1 && (
+            <div className="space-y-2">
+              <p className="text-sm font-medium">Daily Doses</p>
+              <p className="text-xs text-gray-500">
+                Leave blank to space doses 12 hours apart from the start time and use the progression amount
+              </p>
+              {Array.from({ length: recurrence.dosesPerDay }, (_, index) => (
+                <div key={index} className="grid grid-cols-[5rem_1fr_1fr] gap-2 items-center">
+                  <span className="text-sm">Dose {index + 1}</span>
+                  <Input
+                    type="time"
+                    value={doseSlots[index]?.time ?? ""}
+                    onChange={(e) => updateDoseSlot(index, { time: e.target.value || null })}
+                  />
+                  <Input
+                    placeholder="Amount (optional)"
+                    value={doseSlots[index]?.amount ?? ""}
+                    onChange={(e) => updateDoseSlot(index, { amount: e.target.value || null })}
+                  />
+                </div>
+              ))}
+            </div>
+          )}
+
           <div className="grid grid-cols-2 gap-3">
             <FormField
               control={form.control}
@@ -728,6 +1349,11 @@ export default function FoodForm({ food, onSuccess }: FoodFormProps) {
               )}
             />
           </div>
+          {timeWindowDoses !== null && (
+            <p className="text-xs text-gray-500">
+              Reaches the target end time after {timeWindowDoses} dose{timeWindowDoses === 1 ? '' : 's'} and stays there.
+            </p>
+          )}
         </div>
 
         <Button
@@ -739,6 +1365,27 @@ export default function FoodForm({ food, onSuccess }: FoodFormProps) {
           {getSaveButtonText()}
         </Button>
       </form>
+
+      <AlertDialog open={!!pendingUpdate} onOpenChange={(open) => !open && setPendingUpdate(null)}>
+        <AlertDialogContent className="max-w-md">
+          <AlertDialogHeader>
+            <AlertDialogTitle>Update upcoming doses?</AlertDialogTitle>
+            <AlertDialogDescription>
+              These changes to {food?.name ?? 'this food'} rebuild its upcoming schedule. Dose history stays as it is.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          {pendingUpdate && <ScheduleDiffList diff={pendingUpdate.diff} />}
+          <AlertDialogFooter>
+            <AlertDialogCancel>Keep Editing</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={() => pendingUpdate && updateMutation.mutate(pendingUpdate.data)}
+              disabled={updateMutation.isPending}
+            >
+              Apply Changes
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
     </Form>
   );
 }
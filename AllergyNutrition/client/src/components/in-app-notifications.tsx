@@ -0,0 +1,36 @@
+import { useEffect } from "react";
+import { useQuery, useQueryClient } from "@tanstack/react-query";
+import { type Notification } from "@shared/schema";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+
+const POLL_MS = 60 * 1000;
+
+// Shows dose reminders sent to the in-app channel as toasts, then marks them read
+export default function InAppNotifications() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: notifications = [] } = useQuery<Notification[]>({
+    queryKey: ['/api/notifications?unread=true'],
+    refetchInterval: POLL_MS,
+  });
+
+  useEffect(() => {
+    if (notifications.length === 0) return;
+    // Oldest first so the newest toast ends up on top
+    for (const notification of [...notifications].reverse()) {
+      toast({
+        title: notification.kind === 'escalation' ? `⚠️ ${notification.title}` : `🔔 ${notification.title}`,
+        description: notification.body,
+      });
+    }
+    Promise.all(notifications.map(notification =>
+      apiRequest('PATCH', `/api/notifications/${notification.id}/read`)
+    )).finally(() => {
+      queryClient.invalidateQueries({ queryKey: ['/api/notifications?unread=true'] });
+    });
+  }, [notifications]);
+
+  return null;
+}
@@ -0,0 +1,109 @@
+import { useState } from "react";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { type Food } from "@shared/schema";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+
+interface LadderFormProps {
+  foods: Food[];
+  onSuccess?: () => void;
+}
+
+export default function LadderForm({ foods, onSuccess }: LadderFormProps) {
+  const [name, setName] = useState("");
+  const [advanceMode, setAdvanceMode] = useState<'date' | 'confirmation'>('confirmation');
+  const [foodIds, setFoodIds] = useState<number[]>([]);
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  // Foods can only be on one ladder at a time
+  const availableFoods = foods.filter(food => food.ladderId === null);
+
+  const createMutation = useMutation({
+    mutationFn: async () => {
+      return apiRequest('POST', '/api/ladders', { name, advanceMode, foodIds });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/ladders'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/foods'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/schedule'] });
+      setName("");
+      setFoodIds([]);
+      onSuccess?.();
+      toast({
+        title: "Ladder created",
+        description: "Only the first rung is scheduled until the ladder moves on.",
+      });
+    },
+    onError: () => {
+      toast({
+        title: "Error",
+        description: "Failed to create ladder.",
+        variant: "destructive",
+      });
+    }
+  });
+
+  const toggleFood = (id: number) => {
+    setFoodIds(ids => ids.includes(id) ? ids.filter(foodId => foodId !== id) : [...ids, id]);
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="space-y-2">
+        <label className="block text-sm font-medium">Ladder Name</label>
+        <Input placeholder="e.g., Milk Ladder" value={name} onChange={(e) => setName(e.target.value)} />
+      </div>
+
+      <div className="space-y-2">
+        <label className="block text-sm font-medium">Move to the Next Rung</label>
+        <Select value={advanceMode} onValueChange={(value: 'date' | 'confirmation') => setAdvanceMode(value)}>
+          <SelectTrigger>
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="confirmation">✋ When I confirm it</SelectItem>
+            <SelectItem value="date">📅 Automatically when the rung's duration ends</SelectItem>
+          </SelectContent>
+        </Select>
+      </div>
+
+      <div className="space-y-2">
+        <label className="block text-sm font-medium">Rungs</label>
+        <p className="text-xs text-gray-500">Tap foods in ladder order, starting with the first rung</p>
+        {availableFoods.length === 0 ? (
+          <p className="text-sm text-gray-400">No foods available. Add each rung as a food first.</p>
+        ) : (
+          <div className="flex flex-wrap gap-2">
+            {availableFoods.map((food) => {
+              const position = foodIds.indexOf(food.id);
+              return (
+                <Button
+                  key={food.id}
+                  type="button"
+                  size="sm"
+                  variant={position >= 0 ? 'default' : 'outline'}
+                  onClick={() => toggleFood(food.id)}
+                >
+                  {position >= 0 && `${position + 1}. `}{food.name}
+                </Button>
+              );
+            })}
+          </div>
+        )}
+      </div>
+
+      <Button
+        onClick={() => createMutation.mutate()}
+        disabled={!name.trim() || foodIds.length < 2 || createMutation.isPending}
+        className="w-full text-white"
+        style={{ backgroundColor: 'hsl(var(--apple-blue))' }}
+      >
+        {createMutation.isPending ? 'Creating...' : 'Create Ladder'}
+      </Button>
+    </div>
+  );
+}
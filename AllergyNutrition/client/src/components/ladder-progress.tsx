@@ -0,0 +1,150 @@
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { type Food, type LadderWithProgress } from "@shared/schema";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+
+interface LadderProgressProps {
+  foods: Food[];
+  showManageActions?: boolean;
+  className?: string;
+}
+
+export default function LadderProgress({ foods, showManageActions = false, className = "" }: LadderProgressProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: ladders = [] } = useQuery<LadderWithProgress[]>({
+    queryKey: ['/api/ladders'],
+  });
+
+  const advanceMutation = useMutation({
+    mutationFn: async (ladderId: number) => {
+      return apiRequest('POST', `/api/ladders/${ladderId}/advance`, {});
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/ladders'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/foods'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/schedule'] });
+      toast({
+        title: "Moved to next rung",
+        description: "The schedule now uses the next food on the ladder.",
+      });
+    },
+    onError: () => {
+      toast({
+        title: "Error",
+        description: "Failed to advance the ladder.",
+        variant: "destructive",
+      });
+    }
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (ladderId: number) => {
+      return apiRequest('DELETE', `/api/ladders/${ladderId}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/ladders'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/foods'] });
+      toast({
+        title: "Ladder removed",
+        description: "Its foods are kept as separate foods.",
+      });
+    },
+    onError: () => {
+      toast({
+        title: "Error",
+        description: "Failed to remove the ladder.",
+        variant: "destructive",
+      });
+    }
+  });
+
+  if (ladders.length === 0) return null;
+
+  return (
+    <div className={`space-y-3 ${className}`}>
+      {ladders.map((ladder) => {
+        const rungFoods = ladder.foodIds
+          .map(id => foods.find(food => food.id === id))
+          .filter(Boolean) as Food[];
+        const nextFood = rungFoods[ladder.currentRung + 1];
+
+        return (
+          <div key={ladder.id} className="p-3 border rounded-lg bg-purple-50/50" style={{ borderColor: 'hsl(var(--apple-border))' }}>
+            <div className="flex items-center justify-between mb-2">
+              <span className="text-sm font-medium" style={{ color: 'hsl(var(--apple-dark))' }}>
+                🪜 {ladder.name}
+              </span>
+              <span className="text-xs" style={{ color: 'hsl(var(--apple-medium))' }}>
+                Rung {ladder.currentRung + 1} of {rungFoods.length}
+              </span>
+            </div>
+            <div className="flex flex-wrap items-center gap-1 text-xs">
+              {rungFoods.map((food, rung) => (
+                <span key={food.id} className="flex items-center gap-1">
+                  {rung > 0 && <span className="text-gray-400">→</span>}
+                  <span
+                    className={`px-2 py-1 rounded-md ${
+                      rung < ladder.currentRung
+                        ? 'bg-green-100 text-green-700'
+                        : rung === ladder.currentRung
+                          ? 'bg-purple-600 text-white font-medium'
+                          : 'bg-gray-100 text-gray-500'
+                    }`}
+                  >
+                    {rung < ladder.currentRung && '✓ '}{food.name}
+                  </span>
+                </span>
+              ))}
+            </div>
+            <div className="flex flex-wrap items-center justify-between gap-2 mt-2">
+              <span className="text-xs" style={{ color: 'hsl(var(--apple-medium))' }}>
+                {!nextFood
+                  ? 'Final rung reached'
+                  : ladder.readyToAdvance
+                    ? `Ready to move on to ${nextFood.name}`
+                    : ladder.nextAdvanceDate
+                      ? `${ladder.advanceMode === 'date' ? 'Moves' : 'Can move'} to ${nextFood.name} on ${new Date(ladder.nextAdvanceDate + 'T00:00:00').toLocaleDateString()}`
+                      : `Move to ${nextFood.name} when your allergist says so`}
+              </span>
+              <div className="flex gap-2">
+                {nextFood && (ladder.advanceMode === 'confirmation' || showManageActions) && (
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    onClick={() => {
+                      if (confirm(`Move ${ladder.name} on to ${nextFood.name} starting today?`)) {
+                        advanceMutation.mutate(ladder.id);
+                      }
+                    }}
+                    disabled={advanceMutation.isPending}
+                    className="text-xs"
+                  >
+                    Advance to Next Rung
+                  </Button>
+                )}
+                {showManageActions && (
+                  <Button
+                    size="sm"
+                    variant="ghost"
+                    onClick={() => {
+                      if (confirm('Remove this ladder? The foods will be kept as separate foods.')) {
+                        deleteMutation.mutate(ladder.id);
+                      }
+                    }}
+                    disabled={deleteMutation.isPending}
+                    className="text-xs text-red-500 hover:text-red-600"
+                  >
+                    Remove Ladder
+                  </Button>
+                )}
+              </div>
+            </div>
+          </div>
+        );
+      })}
+    </div>
+  );
+}
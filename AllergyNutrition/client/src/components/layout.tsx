@@ -2,6 +2,8 @@ import { Calendar, Plus, Settings, LogOut } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { useAuth } from "@/features/auth";
 import { apiRequest, queryClient } from "@/lib/queryClient";
+import ObservationTimer from "@/components/observation-timer";
+import InAppNotifications from "@/components/in-app-notifications";
 
 // Logo Component
 interface LogoProps {
@@ -88,6 +90,8 @@ export function Header() {
           
           {isAuthenticated && (
             <div className="flex items-center space-x-4">
+              <InAppNotifications />
+              <ObservationTimer />
               {userData?.username && (
                 <span className="text-sm text-gray-600 dark:text-gray-300 hidden sm:inline">
                   {userData.username}
@@ -0,0 +1,136 @@
+import { useEffect, useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } from "@/components/ui/dialog";
+import { Tooltip, TooltipContent, TooltipTrigger } from "@/components/ui/tooltip";
+import { type Food, type ScheduleEntry } from "@shared/schema";
+import { getObservations, getRestRules, SYMPTOM_CHECK_HOURS } from "@shared/observation";
+import { formatDate } from "@/lib/date-utils";
+import ReactionForm from "@/components/reaction-form";
+
+const CHECKED_KEY = 'observation_checked';
+
+// Entries whose "any symptoms?" prompt was answered, kept across reloads
+function getCheckedEntries(): number[] {
+  try {
+    return JSON.parse(localStorage.getItem(CHECKED_KEY) ?? '[]');
+  } catch {
+    return [];
+  }
+}
+
+function setEntryChecked(entryId: number) {
+  // Only recent entries can prompt, so a short list is enough
+  const checked = [entryId, ...getCheckedEntries().filter(id => id !== entryId)].slice(0, 50);
+  localStorage.setItem(CHECKED_KEY, JSON.stringify(checked));
+}
+
+function formatRemaining(ms: number): string {
+  const totalSeconds = Math.max(Math.ceil(ms / 1000), 0);
+  const hours = Math.floor(totalSeconds / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60);
+  const seconds = totalSeconds % 60;
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return hours > 0 ? `${hours}:${pad(minutes)}:${pad(seconds)}` : `${minutes}:${pad(seconds)}`;
+}
+
+// Post-dose observation timers for the header. Timers run from each dose's
+// completion time, so they survive reloads; when one ends it asks about symptoms.
+export default function ObservationTimer() {
+  const [now, setNow] = useState(Date.now());
+  const [checked, setChecked] = useState<number[]>(getCheckedEntries);
+  const [loggingReaction, setLoggingReaction] = useState(false);
+
+  // Doses taken late yesterday can still be under observation
+  const startDate = formatDate(new Date(now - SYMPTOM_CHECK_HOURS * 60 * 60 * 1000));
+  const endDate = formatDate(new Date(now));
+
+  const { data: foods = [] } = useQuery<Food[]>({
+    queryKey: ['/api/foods'],
+  });
+
+  const { data: entries = [] } = useQuery<ScheduleEntry[]>({
+    queryKey: ['/api/schedule', { startDate, endDate }],
+    queryFn: async () => {
+      const response = await fetch(`/api/schedule?startDate=${startDate}&endDate=${endDate}`);
+      if (!response.ok) throw new Error('Failed to fetch schedule');
+      return response.json();
+    }
+  });
+
+  const { active, finished } = getObservations(entries, foods, now);
+  const pendingCheck = finished.find(observation => !checked.includes(observation.entry.id));
+
+  useEffect(() => {
+    if (active.length === 0) return;
+    const interval = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(interval);
+  }, [active.length]);
+
+  // Pick up timers started elsewhere, e.g. a dose completed from another tab
+  useEffect(() => {
+    const interval = setInterval(() => setNow(Date.now()), 60 * 1000);
+    return () => clearInterval(interval);
+  }, []);
+
+  const markChecked = (entryId: number) => {
+    setEntryChecked(entryId);
+    setChecked(getCheckedEntries());
+    setLoggingReaction(false);
+  };
+
+  return (
+    <>
+      {active.map(({ entry, food, endsAt }) => (
+        <Tooltip key={entry.id}>
+          <TooltipTrigger asChild>
+            <span className="text-xs sm:text-sm px-2 py-1 rounded-full bg-amber-50 text-amber-700 border border-amber-200 tabular-nums">
+              👁 <span className="hidden sm:inline">{food.name} </span>{formatRemaining(endsAt - now)}
+            </span>
+          </TooltipTrigger>
+          <TooltipContent>
+            <p className="font-medium">Watching for symptoms after {food.name}</p>
+            {getRestRules(food).map(rule => <p key={rule}>• {rule}</p>)}
+          </TooltipContent>
+        </Tooltip>
+      ))}
+
+      <Dialog open={!!pendingCheck} onOpenChange={(open) => !open && pendingCheck && markChecked(pendingCheck.entry.id)}>
+        <DialogContent className="max-w-md max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>Any symptoms?</DialogTitle>
+            <DialogDescription>
+              The observation period after {pendingCheck?.food.name} has ended.
+            </DialogDescription>
+          </DialogHeader>
+          {pendingCheck && (loggingReaction ? (
+            <ReactionForm
+              date={pendingCheck.entry.date}
+              foods={foods}
+              entry={pendingCheck.entry}
+              onSuccess={() => markChecked(pendingCheck.entry.id)}
+              onCancel={() => setLoggingReaction(false)}
+            />
+          ) : (
+            <div className="flex gap-2">
+              <Button
+                onClick={() => markChecked(pendingCheck.entry.id)}
+                className="flex-1 text-white"
+                style={{ backgroundColor: 'hsl(var(--apple-green))' }}
+              >
+                No symptoms
+              </Button>
+              <Button
+                variant="outline"
+                onClick={() => setLoggingReaction(true)}
+                className="flex-1 text-orange-600 border-orange-300 hover:bg-orange-50"
+              >
+                Yes, log a reaction
+              </Button>
+            </div>
+          ))}
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
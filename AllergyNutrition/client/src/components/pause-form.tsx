@@ -0,0 +1,124 @@
+import { useState } from "react";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { type Food, type Pause } from "@shared/schema";
+import { pauseReasonLabels } from "@shared/pauses";
+import { apiRequest } from "@/lib/queryClient";
+import { formatDate } from "@/lib/date-utils";
+import { useToast } from "@/hooks/use-toast";
+
+const ALL_FOODS = "all";
+
+interface PauseFormProps {
+  foods: Food[];
+  food?: Food; // Pausing one food; otherwise the food can be picked, or all of them
+  onSuccess?: () => void;
+}
+
+export default function PauseForm({ foods, food, onSuccess }: PauseFormProps) {
+  const [foodId, setFoodId] = useState<string>(food ? String(food.id) : ALL_FOODS);
+  const [reason, setReason] = useState<Pause["reason"]>("illness");
+  const [startDate, setStartDate] = useState(formatDate(new Date()));
+  const [endDate, setEndDate] = useState("");
+  const [note, setNote] = useState("");
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const createMutation = useMutation({
+    mutationFn: async () => {
+      return apiRequest('POST', '/api/pauses', {
+        foodId: foodId === ALL_FOODS ? null : parseInt(foodId),
+        reason,
+        startDate,
+        endDate: endDate || null,
+        note: note.trim() || null,
+      });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/pauses'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/schedule'] });
+      onSuccess?.();
+      toast({
+        title: "Paused",
+        description: endDate
+          ? "No doses are scheduled while paused."
+          : "No doses are scheduled until you resume.",
+      });
+    },
+    onError: () => {
+      toast({
+        title: "Error",
+        description: "Failed to pause.",
+        variant: "destructive",
+      });
+    }
+  });
+
+  return (
+    <div className="space-y-4">
+      {!food && (
+        <div className="space-y-2">
+          <label className="block text-sm font-medium">Pause</label>
+          <Select value={foodId} onValueChange={setFoodId}>
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ALL_FOODS}>All foods</SelectItem>
+              {foods.map((f) => (
+                <SelectItem key={f.id} value={String(f.id)}>{f.name}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      )}
+
+      <div className="space-y-2">
+        <label className="block text-sm font-medium">Reason</label>
+        <div className="flex flex-wrap gap-1">
+          {(Object.keys(pauseReasonLabels) as Pause["reason"][]).map((key) => (
+            <Button
+              key={key}
+              type="button"
+              size="sm"
+              variant={reason === key ? 'default' : 'outline'}
+              className="text-xs"
+              onClick={() => setReason(key)}
+            >
+              {pauseReasonLabels[key]}
+            </Button>
+          ))}
+        </div>
+      </div>
+
+      <div className="grid grid-cols-2 gap-3">
+        <div className="space-y-2">
+          <label className="block text-sm font-medium">From</label>
+          <Input type="date" value={startDate} onChange={(e) => setStartDate(e.target.value)} />
+        </div>
+        <div className="space-y-2">
+          <label className="block text-sm font-medium">Until</label>
+          <Input type="date" min={startDate} value={endDate} onChange={(e) => setEndDate(e.target.value)} />
+          <p className="text-xs text-gray-500">Leave empty to pause until you resume</p>
+        </div>
+      </div>
+
+      <div className="space-y-2">
+        <label className="block text-sm font-medium">Notes</label>
+        <Textarea rows={2} placeholder="e.g., Stomach bug, allergist said to stop for a week" value={note} onChange={(e) => setNote(e.target.value)} />
+      </div>
+
+      <Button
+        onClick={() => createMutation.mutate()}
+        disabled={!startDate || (!!endDate && endDate < startDate) || createMutation.isPending}
+        className="w-full text-white"
+        style={{ backgroundColor: 'hsl(var(--apple-blue))' }}
+      >
+        {createMutation.isPending ? 'Pausing...' : 'Pause Dosing'}
+      </Button>
+    </div>
+  );
+}
@@ -0,0 +1,127 @@
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { type Food, type Pause } from "@shared/schema";
+import { pauseReasonLabels } from "@shared/pauses";
+import { apiRequest } from "@/lib/queryClient";
+import { formatDate } from "@/lib/date-utils";
+import { useToast } from "@/hooks/use-toast";
+
+interface PauseListProps {
+  foods: Food[];
+}
+
+function formatDay(date: string): string {
+  return new Date(date + 'T00:00:00').toLocaleDateString();
+}
+
+// Current and upcoming pauses, with the choice of how to pick dosing back up
+export default function PauseList({ foods }: PauseListProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: pauses = [] } = useQuery<Pause[]>({
+    queryKey: ['/api/pauses'],
+  });
+
+  const resumeMutation = useMutation({
+    mutationFn: async ({ id, mode }: { id: number; mode: 'continue' | 'step_down' }) => {
+      return apiRequest('POST', `/api/pauses/${id}/resume`, { mode });
+    },
+    onSuccess: (_, { mode }) => {
+      queryClient.invalidateQueries({ queryKey: ['/api/pauses'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/schedule'] });
+      toast({
+        title: "Resumed",
+        description: mode === 'step_down'
+          ? "Dosing starts again today, one step lower."
+          : "Dosing starts again today where it left off.",
+      });
+    },
+    onError: () => {
+      toast({
+        title: "Error",
+        description: "Failed to resume.",
+        variant: "destructive",
+      });
+    }
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: number) => {
+      return apiRequest('DELETE', `/api/pauses/${id}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/pauses'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/schedule'] });
+    },
+    onError: () => {
+      toast({
+        title: "Error",
+        description: "Failed to delete pause.",
+        variant: "destructive",
+      });
+    }
+  });
+
+  const today = formatDate(new Date());
+  const current = pauses
+    .filter(pause => !pause.endDate || pause.endDate >= today)
+    .sort((a, b) => a.startDate.localeCompare(b.startDate));
+  if (current.length === 0) return null;
+
+  return (
+    <div className="space-y-2">
+      {current.map((pause) => {
+        const food = foods.find(f => f.id === pause.foodId);
+        const started = pause.startDate < today;
+        return (
+          <div key={pause.id} className="p-3 border rounded-lg text-sm bg-slate-50 border-slate-200 space-y-2">
+            <div>
+              <span className="font-medium">⏸ {food ? food.name : 'All foods'}</span>
+              {' · '}{pauseReasonLabels[pause.reason]}
+              {' · '}{formatDay(pause.startDate)} – {pause.endDate ? formatDay(pause.endDate) : 'until resumed'}
+            </div>
+            {pause.note && <p className="text-xs text-gray-500">{pause.note}</p>}
+            <div className="flex flex-wrap gap-2">
+              {started && (
+                <>
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    className="text-xs"
+                    onClick={() => resumeMutation.mutate({ id: pause.id, mode: 'continue' })}
+                    disabled={resumeMutation.isPending}
+                  >
+                    Resume where I left off
+                  </Button>
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    className="text-xs"
+                    onClick={() => resumeMutation.mutate({ id: pause.id, mode: 'step_down' })}
+                    disabled={resumeMutation.isPending}
+                  >
+                    Resume one step lower
+                  </Button>
+                </>
+              )}
+              <Button
+                size="sm"
+                variant="ghost"
+                className="text-xs text-red-500 hover:text-red-600"
+                onClick={() => {
+                  if (confirm('Delete this pause? Its doses are put back on the schedule.')) {
+                    deleteMutation.mutate(pause.id);
+                  }
+                }}
+                disabled={deleteMutation.isPending}
+              >
+                Delete
+              </Button>
+            </div>
+          </div>
+        );
+      })}
+    </div>
+  );
+}
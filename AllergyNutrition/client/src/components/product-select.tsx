@@ -0,0 +1,140 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { type Product } from "@shared/schema";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+
+// Typical protein content of common OIT products, as a starting point for a new product
+const productPresets = [
+  { name: "Peanut flour", proteinPercent: 50 },
+  { name: "Peanut butter", proteinPercent: 25 },
+  { name: "Cow's milk", proteinPercent: 3.3 },
+  { name: "Egg white powder", proteinPercent: 80 },
+];
+
+interface ProductSelectProps {
+  value: number | null;
+  onChange: (productId: number | null) => void;
+}
+
+export default function ProductSelect({ value, onChange }: ProductSelectProps) {
+  const [adding, setAdding] = useState(false);
+  const [name, setName] = useState("");
+  const [proteinPercent, setProteinPercent] = useState("");
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: products = [] } = useQuery<Product[]>({
+    queryKey: ['/api/products'],
+  });
+
+  const createMutation = useMutation({
+    mutationFn: async (): Promise<Product> => {
+      const response = await apiRequest('POST', '/api/products', {
+        name: name.trim(),
+        proteinPercent: parseFloat(proteinPercent),
+      });
+      return response.json();
+    },
+    onSuccess: (product) => {
+      queryClient.invalidateQueries({ queryKey: ['/api/products'] });
+      onChange(product.id);
+      setAdding(false);
+      setName("");
+      setProteinPercent("");
+    },
+    onError: () => {
+      toast({
+        title: "Error",
+        description: "Failed to save product.",
+        variant: "destructive",
+      });
+    }
+  });
+
+  const percent = parseFloat(proteinPercent);
+
+  if (adding) {
+    return (
+      <div className="space-y-2">
+        <div className="flex flex-wrap gap-1">
+          {productPresets.map((preset) => (
+            <Button
+              key={preset.name}
+              type="button"
+              variant="outline"
+              size="sm"
+              className="text-xs"
+              onClick={() => {
+                setName(preset.name);
+                setProteinPercent(String(preset.proteinPercent));
+              }}
+            >
+              {preset.name} ({preset.proteinPercent}%)
+            </Button>
+          ))}
+        </div>
+        <div className="grid grid-cols-3 gap-2">
+          <Input
+            className="col-span-2"
+            placeholder="Product name"
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+          />
+          <Input
+            type="number"
+            min="0.1"
+            max="100"
+            step="0.1"
+            placeholder="% protein"
+            value={proteinPercent}
+            onChange={(e) => setProteinPercent(e.target.value)}
+          />
+        </div>
+        <p className="text-xs text-gray-500">Check the label or ask your allergist for the protein content</p>
+        <div className="flex gap-2">
+          <Button
+            type="button"
+            size="sm"
+            onClick={() => createMutation.mutate()}
+            disabled={!name.trim() || !(percent > 0 && percent <= 100) || createMutation.isPending}
+          >
+            Save Product
+          </Button>
+          <Button type="button" variant="ghost" size="sm" onClick={() => setAdding(false)}>
+            Cancel
+          </Button>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <Select
+      value={value ? String(value) : "none"}
+      onValueChange={(selected) => {
+        if (selected === "new") {
+          setAdding(true);
+        } else {
+          onChange(selected === "none" ? null : parseInt(selected));
+        }
+      }}
+    >
+      <SelectTrigger>
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        <SelectItem value="none">No product (dose by measure)</SelectItem>
+        {products.map((product) => (
+          <SelectItem key={product.id} value={String(product.id)}>
+            {product.name} ({product.proteinPercent}% protein)
+          </SelectItem>
+        ))}
+        <SelectItem value="new">➕ Add a product</SelectItem>
+      </SelectContent>
+    </Select>
+  );
+}
@@ -0,0 +1,70 @@
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { type Food, type Reaction } from "@shared/schema";
+import { reactionActionLabels } from "@shared/reaction-grading";
+import { apiRequest } from "@/lib/queryClient";
+import { formatDate } from "@/lib/date-utils";
+
+const RECENT_DAYS = 7;
+
+const bannerStyles: Record<Reaction["severity"], string> = {
+  mild: 'bg-yellow-50 border-yellow-300 text-yellow-800',
+  moderate: 'bg-orange-50 border-orange-300 text-orange-800',
+  severe: 'bg-red-50 border-red-300 text-red-800',
+};
+
+interface ReactionBannerProps {
+  foods: Food[];
+  className?: string;
+}
+
+// Follow-ups from recent reactions that haven't been dismissed yet
+export default function ReactionBanner({ foods, className = "" }: ReactionBannerProps) {
+  const queryClient = useQueryClient();
+
+  const { data: reactions = [] } = useQuery<Reaction[]>({
+    queryKey: ['/api/reactions'],
+  });
+
+  const acknowledgeMutation = useMutation({
+    mutationFn: async (id: number) => {
+      return apiRequest('PATCH', `/api/reactions/${id}`, { acknowledged: true });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/reactions'] });
+    },
+  });
+
+  const since = new Date();
+  since.setDate(since.getDate() - RECENT_DAYS);
+  const recent = reactions.filter(reaction =>
+    reaction.followUpAction && !reaction.acknowledged && reaction.date >= formatDate(since)
+  );
+  if (recent.length === 0) return null;
+
+  return (
+    <div className={`space-y-2 ${className}`}>
+      {recent.map((reaction) => {
+        const food = foods.find(f => f.id === reaction.foodId);
+        return (
+          <div key={reaction.id} className={`flex items-center justify-between gap-2 p-3 border rounded-lg text-sm ${bannerStyles[reaction.severity]}`}>
+            <span>
+              <span className="font-medium capitalize">{reaction.severity}</span> reaction
+              {food && ` to ${food.name}`} on {new Date(reaction.date + 'T00:00:00').toLocaleDateString()}:{' '}
+              <span className="font-medium">{reactionActionLabels[reaction.followUpAction!]}</span>
+            </span>
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => acknowledgeMutation.mutate(reaction.id)}
+              disabled={acknowledgeMutation.isPending}
+              className="text-xs"
+            >
+              Dismiss
+            </Button>
+          </div>
+        );
+      })}
+    </div>
+  );
+}
@@ -0,0 +1,202 @@
+import { useState } from "react";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { type Food, type Reaction, type ScheduleEntry } from "@shared/schema";
+import { gradingQuestions, gradeReaction, reactionActionLabels } from "@shared/reaction-grading";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+
+// Symptoms the grading questions don't already cover
+const symptomOptions = ["Rash", "Red eyes", "Eczema flare", "Tiredness", "Irritability"];
+
+const severityLabels: Record<Reaction["severity"], string> = {
+  mild: "🟡 Mild",
+  moderate: "🟠 Moderate",
+  severe: "🔴 Severe",
+};
+
+const treatmentOptions = ["None", "Antihistamine", "Inhaler", "Epinephrine", "Emergency room"];
+
+interface ReactionFormProps {
+  date: string; // YYYY-MM-DD
+  foods: Food[];
+  entry?: ScheduleEntry; // Dose the reaction followed, if known
+  onSuccess?: () => void;
+  onCancel?: () => void;
+}
+
+export default function ReactionForm({ date, foods, entry, onSuccess, onCancel }: ReactionFormProps) {
+  const [foodId, setFoodId] = useState<string>(entry ? String(entry.foodId) : "");
+  const [symptoms, setSymptoms] = useState<string[]>([]);
+  const [otherSymptom, setOtherSymptom] = useState("");
+  const [onsetMinutes, setOnsetMinutes] = useState("");
+  const [answers, setAnswers] = useState<Record<string, string>>({});
+  const [treatment, setTreatment] = useState("");
+  const [note, setNote] = useState("");
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const severity = gradeReaction(answers);
+  // Every organ system answer other than "No" is recorded as a symptom
+  const gradedSymptoms = gradingQuestions.flatMap(question => {
+    const option = question.options.find(o => o.key === answers[question.key]);
+    return option?.grade ? [`${question.system}: ${option.label}`] : [];
+  });
+  const allSymptoms = [...gradedSymptoms, ...symptoms, ...(otherSymptom.trim() ? [otherSymptom.trim()] : [])];
+
+  const createMutation = useMutation({
+    mutationFn: async () => {
+      return apiRequest('POST', '/api/reactions', {
+        foodId: foodId ? parseInt(foodId) : null,
+        scheduleEntryId: entry?.id ?? null,
+        date,
+        symptoms: allSymptoms,
+        onsetMinutes: onsetMinutes ? parseInt(onsetMinutes) : null,
+        severity,
+        gradingAnswers: answers,
+        treatment: treatment.trim() || null,
+        note: note.trim() || null,
+      });
+    },
+    onSuccess: async (response) => {
+      const reaction: Reaction & { followUpFailed?: boolean } = await response.json();
+      queryClient.invalidateQueries({ queryKey: ['/api/reactions'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/schedule'] });
+      onSuccess?.();
+      toast({
+        title: `${severityLabels[reaction.severity]} reaction logged`,
+        description: reaction.followUpFailed
+          ? "It's saved, but upcoming doses couldn't be updated. Check them on the calendar."
+          : reaction.followUpAction
+            ? `${reactionActionLabels[reaction.followUpAction]}. Upcoming doses have been updated.`
+            : "It's saved in your reaction history for your allergist.",
+      });
+    },
+    onError: () => {
+      toast({
+        title: "Error",
+        description: "Failed to log reaction.",
+        variant: "destructive",
+      });
+    }
+  });
+
+  const toggleSymptom = (symptom: string) => {
+    setSymptoms(current => current.includes(symptom) ? current.filter(s => s !== symptom) : [...current, symptom]);
+  };
+
+  return (
+    <div className="space-y-4">
+      {!entry && (
+        <div className="space-y-2">
+          <label className="block text-sm font-medium">Food</label>
+          <Select value={foodId} onValueChange={setFoodId}>
+            <SelectTrigger>
+              <SelectValue placeholder="Which food caused it?" />
+            </SelectTrigger>
+            <SelectContent>
+              {foods.map((food) => (
+                <SelectItem key={food.id} value={String(food.id)}>{food.name}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      )}
+
+      {gradingQuestions.map((question) => (
+        <div key={question.key} className="space-y-1">
+          <label className="block text-sm font-medium">{question.question}</label>
+          <div className="flex flex-wrap gap-1">
+            {question.options.map((option) => {
+              const selected = (answers[question.key] ?? 'none') === option.key;
+              return (
+                <Button
+                  key={option.key}
+                  type="button"
+                  size="sm"
+                  variant={selected ? 'default' : 'outline'}
+                  className="text-xs h-auto py-1 whitespace-normal text-left"
+                  onClick={() => setAnswers(current => ({ ...current, [question.key]: option.key }))}
+                >
+                  {option.label}
+                </Button>
+              );
+            })}
+          </div>
+        </div>
+      ))}
+
+      <div className="space-y-2">
+        <label className="block text-sm font-medium">Other Symptoms</label>
+        <div className="flex flex-wrap gap-1">
+          {symptomOptions.map((symptom) => (
+            <Button
+              key={symptom}
+              type="button"
+              size="sm"
+              variant={symptoms.includes(symptom) ? 'default' : 'outline'}
+              className="text-xs"
+              onClick={() => toggleSymptom(symptom)}
+            >
+              {symptom}
+            </Button>
+          ))}
+        </div>
+        <Input placeholder="Something else" value={otherSymptom} onChange={(e) => setOtherSymptom(e.target.value)} />
+      </div>
+
+      <div className="grid grid-cols-2 gap-3 items-end">
+        <div className="space-y-2">
+          <label className="block text-sm font-medium">Started After (min)</label>
+          <Input type="number" min="0" placeholder="e.g., 15" value={onsetMinutes} onChange={(e) => setOnsetMinutes(e.target.value)} />
+        </div>
+        <div className="p-2 rounded-lg bg-gray-50 text-sm text-center">
+          Grade: <span className="font-medium">{severityLabels[severity]}</span>
+        </div>
+      </div>
+
+      <div className="space-y-2">
+        <label className="block text-sm font-medium">Treatment Given</label>
+        <div className="flex flex-wrap gap-1">
+          {treatmentOptions.map((option) => (
+            <Button
+              key={option}
+              type="button"
+              size="sm"
+              variant={treatment === option ? 'default' : 'outline'}
+              className="text-xs"
+              onClick={() => setTreatment(option)}
+            >
+              {option}
+            </Button>
+          ))}
+        </div>
+        <Input placeholder="e.g., 5 ml cetirizine" value={treatment} onChange={(e) => setTreatment(e.target.value)} />
+      </div>
+
+      <div className="space-y-2">
+        <label className="block text-sm font-medium">Notes</label>
+        <Textarea rows={2} placeholder="Anything else your allergist should know" value={note} onChange={(e) => setNote(e.target.value)} />
+      </div>
+
+      <div className="flex gap-2">
+        <Button
+          onClick={() => createMutation.mutate()}
+          disabled={allSymptoms.length === 0 || createMutation.isPending}
+          className="flex-1 text-white"
+          style={{ backgroundColor: 'hsl(var(--apple-blue))' }}
+        >
+          {createMutation.isPending ? 'Saving...' : 'Save Reaction'}
+        </Button>
+        {onCancel && (
+          <Button variant="outline" onClick={onCancel}>
+            Cancel
+          </Button>
+        )}
+      </div>
+    </div>
+  );
+}
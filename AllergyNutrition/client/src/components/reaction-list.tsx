@@ -0,0 +1,82 @@
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { type Food, type Reaction } from "@shared/schema";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+
+const severityStyles: Record<Reaction["severity"], string> = {
+  mild: 'bg-yellow-50 border-yellow-200',
+  moderate: 'bg-orange-50 border-orange-200',
+  severe: 'bg-red-50 border-red-200',
+};
+
+interface ReactionListProps {
+  date: string; // YYYY-MM-DD
+  foods: Food[];
+}
+
+// Reactions logged on one day
+export default function ReactionList({ date, foods }: ReactionListProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: reactions = [] } = useQuery<Reaction[]>({
+    queryKey: ['/api/reactions'],
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: number) => {
+      return apiRequest('DELETE', `/api/reactions/${id}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/reactions'] });
+    },
+    onError: () => {
+      toast({
+        title: "Error",
+        description: "Failed to delete reaction.",
+        variant: "destructive",
+      });
+    }
+  });
+
+  const dayReactions = reactions.filter(reaction => reaction.date === date);
+  if (dayReactions.length === 0) return null;
+
+  return (
+    <div className="space-y-2">
+      <h4 className="text-sm font-medium" style={{ color: 'hsl(var(--apple-dark))' }}>
+        Reactions
+      </h4>
+      {dayReactions.map((reaction) => {
+        const food = foods.find(f => f.id === reaction.foodId);
+        return (
+          <div key={reaction.id} className={`p-2 border rounded-lg text-xs space-y-1 ${severityStyles[reaction.severity]}`}>
+            <div className="flex items-center justify-between">
+              <span className="font-medium capitalize">
+                {reaction.severity}{food && ` · ${food.name}`}
+                {reaction.onsetMinutes != null && ` · after ${reaction.onsetMinutes} min`}
+              </span>
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => {
+                  if (confirm('Delete this reaction?')) {
+                    deleteMutation.mutate(reaction.id);
+                  }
+                }}
+                className="h-6 text-red-500 hover:text-red-600"
+                disabled={deleteMutation.isPending}
+              >
+                Delete
+              </Button>
+            </div>
+            <p>{reaction.symptoms.join(', ')}</p>
+            {reaction.treatment && <p>💊 {reaction.treatment}</p>}
+            {reaction.note && <p className="text-gray-500">{reaction.note}</p>}
+          </div>
+        );
+      })}
+    </div>
+  );
+}
@@ -0,0 +1,222 @@
+import { useEffect, useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Bell, BellOff } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Switch } from "@/components/ui/switch";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { notificationChannels, type NotificationChannelName, type ReminderSettings } from "@shared/schema";
+import { apiRequest } from "@/lib/queryClient";
+import { PushNotificationManager } from "@/lib/push";
+import { useToast } from "@/hooks/use-toast";
+
+const channelLabels: Record<NotificationChannelName, string> = {
+  in_app: "In app",
+  push: "Push",
+  email: "Email",
+  sms: "Text",
+};
+
+class PushSetupError extends Error {}
+
+const leadOptions = [0, 5, 15, 30, 60];
+const escalateOptions = [15, 30, 60, 120];
+
+// Dose reminder preferences, shown in the settings dialog
+export default function ReminderSettingsSection() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: settings, isLoading } = useQuery<ReminderSettings | null>({
+    queryKey: ['/api/reminder-settings'],
+  });
+
+  const [enabled, setEnabled] = useState(false);
+  const [leadMinutes, setLeadMinutes] = useState(15);
+  const [escalateAfterMinutes, setEscalateAfterMinutes] = useState<number | null>(30);
+  const [channels, setChannels] = useState<NotificationChannelName[]>(['in_app']);
+  const [escalationChannels, setEscalationChannels] = useState<NotificationChannelName[]>(['in_app']);
+  const [email, setEmail] = useState("");
+  const [phone, setPhone] = useState("");
+
+  useEffect(() => {
+    if (!settings) return;
+    setEnabled(settings.enabled);
+    setLeadMinutes(settings.leadMinutes);
+    setEscalateAfterMinutes(settings.escalateAfterMinutes);
+    setChannels(settings.channels);
+    setEscalationChannels(settings.escalationChannels ?? settings.channels);
+    setEmail(settings.email ?? "");
+    setPhone(settings.phone ?? "");
+  }, [settings]);
+
+  const usedChannels = [...channels, ...(escalateAfterMinutes != null ? escalationChannels : [])];
+
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      // Push goes to the browsers that subscribed, so subscribe this one when it's picked
+      if (enabled && usedChannels.includes('push')) {
+        try {
+          await PushNotificationManager.getInstance().subscribe();
+        } catch (error) {
+          throw new PushSetupError(error instanceof Error ? error.message : String(error));
+        }
+      }
+      return apiRequest('PUT', '/api/reminder-settings', {
+        enabled,
+        leadMinutes,
+        escalateAfterMinutes,
+        channels,
+        escalationChannels: escalateAfterMinutes != null ? escalationChannels : null,
+        email: email.trim() || null,
+        phone: phone.trim() || null,
+        // Dose times are wall-clock times wherever this browser is
+        timeZone: Intl.DateTimeFormat().resolvedOptions().timeZone,
+      });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/reminder-settings'] });
+      toast({
+        title: "Reminders saved",
+        description: enabled ? `You'll be reminded ${leadMinutes} minutes before each dose.` : "Dose reminders are off.",
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: error instanceof PushSetupError
+          ? `Couldn't turn on push notifications: ${error.message}.`
+          : "Failed to save reminders. Check the email address and phone number.",
+        variant: "destructive",
+      });
+    }
+  });
+
+  const toggle = (list: NotificationChannelName[], channel: NotificationChannelName) =>
+    list.includes(channel) ? list.filter(c => c !== channel) : [...list, channel];
+
+  const missingContact = (usedChannels.includes('email') && !email.trim()) || (usedChannels.includes('sms') && !phone.trim());
+
+  if (isLoading) return null;
+
+  return (
+    <div className="space-y-3">
+      <h4 className="font-medium">Dose Reminders</h4>
+      <div className="flex items-center justify-between">
+        <div className="flex items-center space-x-3">
+          {enabled ? (
+            <Bell className="w-4 h-4 text-green-600" />
+          ) : (
+            <BellOff className="w-4 h-4 text-gray-400" />
+          )}
+          <span>Remind me about doses</span>
+        </div>
+        <Switch checked={enabled} onCheckedChange={setEnabled} />
+      </div>
+
+      {enabled && (
+        <div className="space-y-3 text-sm">
+          <div className="grid grid-cols-2 gap-3">
+            <div className="space-y-1">
+              <label className="block text-xs font-medium">Remind Me</label>
+              <Select value={String(leadMinutes)} onValueChange={(value) => setLeadMinutes(parseInt(value))}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {leadOptions.map((minutes) => (
+                    <SelectItem key={minutes} value={String(minutes)}>
+                      {minutes === 0 ? 'At dose time' : `${minutes} min before`}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-1">
+              <label className="block text-xs font-medium">If Not Done</label>
+              <Select
+                value={escalateAfterMinutes == null ? 'off' : String(escalateAfterMinutes)}
+                onValueChange={(value) => setEscalateAfterMinutes(value === 'off' ? null : parseInt(value))}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="off">Don't follow up</SelectItem>
+                  {escalateOptions.map((minutes) => (
+                    <SelectItem key={minutes} value={String(minutes)}>
+                      Follow up after {minutes} min
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          <div className="space-y-1">
+            <label className="block text-xs font-medium">Send Reminders By</label>
+            <div className="flex flex-wrap gap-1">
+              {notificationChannels.map((channel) => (
+                <Button
+                  key={channel}
+                  type="button"
+                  size="sm"
+                  variant={channels.includes(channel) ? 'default' : 'outline'}
+                  className="text-xs"
+                  onClick={() => setChannels(toggle(channels, channel))}
+                >
+                  {channelLabels[channel]}
+                </Button>
+              ))}
+            </div>
+          </div>
+
+          {escalateAfterMinutes != null && (
+            <div className="space-y-1">
+              <label className="block text-xs font-medium">Send Follow-ups By</label>
+              <div className="flex flex-wrap gap-1">
+                {notificationChannels.map((channel) => (
+                  <Button
+                    key={channel}
+                    type="button"
+                    size="sm"
+                    variant={escalationChannels.includes(channel) ? 'default' : 'outline'}
+                    className="text-xs"
+                    onClick={() => setEscalationChannels(toggle(escalationChannels, channel))}
+                  >
+                    {channelLabels[channel]}
+                  </Button>
+                ))}
+              </div>
+            </div>
+          )}
+
+          {usedChannels.includes('push') && (
+            <p className="text-xs text-gray-500">
+              Push notifications go to this device once you save. Use Mark done or Snooze 15 min right from the notification.
+            </p>
+          )}
+          {usedChannels.includes('email') && (
+            <Input type="email" placeholder="Email address" value={email} onChange={(e) => setEmail(e.target.value)} />
+          )}
+          {usedChannels.includes('sms') && (
+            <Input type="tel" placeholder="Phone, e.g. +15551234567" value={phone} onChange={(e) => setPhone(e.target.value)} />
+          )}
+        </div>
+      )}
+
+      <Button
+        variant="outline"
+        size="sm"
+        onClick={() => saveMutation.mutate()}
+        disabled={
+          saveMutation.isPending ||
+          (enabled && (channels.length === 0 || (escalateAfterMinutes != null && escalationChannels.length === 0) || missingContact))
+        }
+        className="w-full"
+      >
+        {saveMutation.isPending ? 'Saving...' : 'Save Reminders'}
+      </Button>
+    </div>
+  );
+}
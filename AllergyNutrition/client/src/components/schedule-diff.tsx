@@ -0,0 +1,66 @@
+import { type ScheduleDiff } from "@shared/schema";
+
+const MAX_ROWS = 50;
+
+function formatDay(date: string): string {
+  return new Date(date + 'T00:00:00').toLocaleDateString('en-US', { weekday: 'short', month: 'short', day: 'numeric' });
+}
+
+function formatDose(amount: string | null | undefined, time: string | null | undefined): string {
+  return [amount, time && `at ${time}`].filter(Boolean).join(' ') || 'dose';
+}
+
+interface ScheduleDiffListProps {
+  diff: ScheduleDiff;
+}
+
+// Upcoming doses an edit would add, remove or change, in date order
+export default function ScheduleDiffList({ diff }: ScheduleDiffListProps) {
+  const rows = [
+    ...diff.added.map(entry => ({
+      key: `+${entry.date}:${entry.doseSlot}`,
+      date: entry.date,
+      className: 'text-green-700',
+      text: `+ ${formatDose(entry.calculatedAmount, entry.calculatedTime)}`,
+    })),
+    ...diff.removed.map(entry => ({
+      key: `-${entry.id}`,
+      date: entry.date,
+      className: 'text-red-600 line-through',
+      text: formatDose(entry.calculatedAmount, entry.calculatedTime),
+    })),
+    ...diff.changed.map(change => ({
+      key: `~${change.id}`,
+      date: change.date,
+      className: 'text-orange-700',
+      text: `${formatDose(change.before.calculatedAmount, change.before.calculatedTime)} → ${formatDose(change.after.calculatedAmount, change.after.calculatedTime)}`,
+    })),
+  ].sort((a, b) => a.date.localeCompare(b.date));
+
+  return (
+    <div className="space-y-2 text-sm">
+      <div className="flex flex-wrap gap-3 text-xs">
+        <span className="text-green-700">{diff.added.length} added</span>
+        <span className="text-red-600">{diff.removed.length} removed</span>
+        <span className="text-orange-700">{diff.changed.length} changed</span>
+        <span className="text-gray-500">{diff.unchanged} unchanged</span>
+      </div>
+      {rows.length > 0 && (
+        <div className="max-h-56 overflow-y-auto rounded-lg border bg-white text-xs divide-y">
+          {rows.slice(0, MAX_ROWS).map((row) => (
+            <div key={row.key} className="flex justify-between gap-3 px-3 py-1">
+              <span className="text-gray-500 whitespace-nowrap">{formatDay(row.date)}</span>
+              <span className={`text-right ${row.className}`}>{row.text}</span>
+            </div>
+          ))}
+          {rows.length > MAX_ROWS && (
+            <div className="px-3 py-1 text-gray-500">…and {rows.length - MAX_ROWS} more</div>
+          )}
+        </div>
+      )}
+      <p className="text-xs text-gray-500">
+        Only doses from {formatDay(diff.fromDate)} on that haven't been given, skipped or missed are rebuilt.
+      </p>
+    </div>
+  );
+}
@@ -0,0 +1,130 @@
+import { useEffect, useState } from "react";
+import { keepPreviousData, useQuery } from "@tanstack/react-query";
+import { CartesianGrid, Line, LineChart, ResponsiveContainer, Tooltip, XAxis, YAxis } from "recharts";
+import { unitConversions, type InsertFood, type InsertScheduleEntry, type SchedulePreview as SchedulePreviewData } from "@shared/schema";
+import { parseQuantity, toBaseValue } from "@shared/quantity";
+import { apiRequest } from "@/lib/queryClient";
+
+const DEBOUNCE_MS = 500;
+const CALENDAR_WEEKS = 5;
+const WEEKDAYS = ['S', 'M', 'T', 'W', 'T', 'F', 'S'];
+const BASE_UNIT_LABELS = { volume: 'ml', mass: 'mg', count: 'pieces' } as const;
+
+function addDays(date: string, days: number): string {
+  const result = new Date(date + 'T00:00:00.000Z');
+  result.setUTCDate(result.getUTCDate() + days);
+  return result.toISOString().split('T')[0];
+}
+
+function formatShortDate(date: string): string {
+  return new Date(date + 'T00:00:00').toLocaleDateString('en-US', { month: 'short', day: 'numeric' });
+}
+
+// Chart in mg of protein when every dose has it, otherwise in the amount's base unit
+function doseCurve(entries: InsertScheduleEntry[]): { unit: string; points: { date: string; value: number; amount: string }[] } {
+  const byProtein = entries.length > 0 && entries.every(entry => entry.proteinMg != null);
+  let unit = 'mg protein';
+  const points = entries.flatMap(entry => {
+    if (byProtein) {
+      return [{ date: entry.date, value: entry.proteinMg!, amount: entry.calculatedAmount ?? '' }];
+    }
+    const quantity = entry.calculatedAmount ? parseQuantity(entry.calculatedAmount) : null;
+    if (!quantity) return [];
+    unit = BASE_UNIT_LABELS[unitConversions[quantity.unit].dimension];
+    return [{ date: entry.date, value: Math.round(toBaseValue(quantity) * 100) / 100, amount: entry.calculatedAmount! }];
+  });
+  return { unit, points };
+}
+
+interface SchedulePreviewProps {
+  values: InsertFood;
+}
+
+// Live dry run of the schedule for the food being edited: the first few weeks as a
+// mini calendar, and the dose curve across the whole buildup
+export default function SchedulePreview({ values }: SchedulePreviewProps) {
+  const serialized = JSON.stringify(values);
+  const [debounced, setDebounced] = useState(serialized);
+
+  useEffect(() => {
+    const timer = setTimeout(() => setDebounced(serialized), DEBOUNCE_MS);
+    return () => clearTimeout(timer);
+  }, [serialized]);
+
+  const { data: preview, isError, isFetching } = useQuery<SchedulePreviewData>({
+    queryKey: ['/api/foods/preview-schedule', debounced],
+    queryFn: async () => {
+      const response = await apiRequest('POST', '/api/foods/preview-schedule', JSON.parse(debounced));
+      return response.json();
+    },
+    enabled: !!values.name?.trim() && !!values.startDate,
+    placeholderData: keepPreviousData,
+    retry: false,
+  });
+
+  if (!values.name?.trim()) {
+    return <p className="text-xs text-gray-500">Enter a name to preview the schedule</p>;
+  }
+  if (isError) {
+    return <p className="text-xs text-gray-500">Finish filling in the dose details to preview the schedule</p>;
+  }
+  if (!preview) {
+    return <p className="text-xs text-gray-500">Loading preview...</p>;
+  }
+
+  const dosesByDate = new Map<string, InsertScheduleEntry[]>();
+  for (const entry of preview.entries) {
+    dosesByDate.set(entry.date, [...(dosesByDate.get(entry.date) ?? []), entry]);
+  }
+
+  // Calendar weeks start on the Sunday before the start date
+  const firstDay = addDays(preview.startDate, -new Date(preview.startDate + 'T00:00:00.000Z').getUTCDay());
+  const calendarDays = Array.from({ length: CALENDAR_WEEKS * 7 }, (_, index) => addDays(firstDay, index));
+  const { unit, points } = doseCurve(preview.entries);
+
+  return (
+    <div className={`space-y-3 rounded-lg border bg-white p-3 ${isFetching ? 'opacity-60' : ''}`}>
+      <div className="flex items-center justify-between text-xs text-gray-500">
+        <span>{preview.entries.length} doses through {formatShortDate(preview.endDate)}</span>
+        {isFetching && <span>Updating...</span>}
+      </div>
+
+      <div className="grid grid-cols-7 gap-1 text-center text-[10px]">
+        {WEEKDAYS.map((day, index) => (
+          <span key={index} className="text-gray-400">{day}</span>
+        ))}
+        {calendarDays.map((date) => {
+          const doses = dosesByDate.get(date) ?? [];
+          const inRange = date >= preview.startDate && date <= preview.endDate;
+          return (
+            <div
+              key={date}
+              title={doses.map(dose => [dose.calculatedAmount, dose.calculatedTime && `at ${dose.calculatedTime}`].filter(Boolean).join(' ') || 'Dose').join('\n') || undefined}
+              className={`rounded py-1 ${!inRange ? 'text-gray-300' : doses.length > 0 ? 'text-white font-medium' : 'bg-gray-50 text-gray-500'}`}
+              style={doses.length > 0 ? { backgroundColor: 'hsl(var(--apple-blue))' } : undefined}
+            >
+              {Number(date.slice(8))}
+            </div>
+          );
+        })}
+      </div>
+
+      {points.length > 1 && (
+        <div className="h-40">
+          <ResponsiveContainer width="100%" height="100%">
+            <LineChart data={points} margin={{ top: 5, right: 10, bottom: 0, left: -10 }}>
+              <CartesianGrid strokeDasharray="3 3" vertical={false} />
+              <XAxis dataKey="date" tickFormatter={formatShortDate} tick={{ fontSize: 10 }} minTickGap={20} />
+              <YAxis tick={{ fontSize: 10 }} />
+              <Tooltip
+                labelFormatter={(date: string) => formatShortDate(date)}
+                formatter={(value: number, _name, item) => [`${item.payload.amount} (${value} ${unit})`, 'Dose']}
+              />
+              <Line type="stepAfter" dataKey="value" stroke="hsl(var(--apple-blue))" strokeWidth={2} dot={false} isAnimationActive={false} />
+            </LineChart>
+          </ResponsiveContainer>
+        </div>
+      )}
+    </div>
+  );
+}
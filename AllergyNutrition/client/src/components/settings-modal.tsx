@@ -5,6 +5,7 @@ import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from
 import { Switch } from '@/components/ui/switch';
 import { SoundManager } from '@/lib/sounds';
 import { OfflineManager } from '@/lib/offline';
+import ReminderSettingsSection from '@/components/reminder-settings';
 
 export default function SettingsModal() {
   const soundManager = SoundManager.getInstance();
@@ -35,7 +36,7 @@ export default function SettingsModal() {
           <Settings className="w-4 h-4" />
         </Button>
       </DialogTrigger>
-      <DialogContent className="max-w-md">
+      <DialogContent className="max-w-md max-h-[90vh] overflow-y-auto">
         <DialogHeader>
           <DialogTitle>App Settings</DialogTitle>
         </DialogHeader>
@@ -71,6 +72,9 @@ export default function SettingsModal() {
             )}
           </div>
 
+          {/* Reminder Settings */}
+          <ReminderSettingsSection />
+
           {/* Offline Status */}
           <div className="space-y-3">
             <h4 className="font-medium">Connection Status</h4>
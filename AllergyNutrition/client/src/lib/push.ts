@@ -0,0 +1,74 @@
+// Web Push Reminders
+import { apiRequest } from "@/lib/queryClient";
+
+const SERVICE_WORKER_URL = '/sw.js';
+
+function urlBase64ToUint8Array(base64: string): Uint8Array {
+  const padded = (base64 + '='.repeat((4 - base64.length % 4) % 4)).replace(/-/g, '+').replace(/_/g, '/');
+  return Uint8Array.from(atob(padded), char => char.charCodeAt(0));
+}
+
+export class PushNotificationManager {
+  private static instance: PushNotificationManager;
+
+  static getInstance(): PushNotificationManager {
+    if (!PushNotificationManager.instance) {
+      PushNotificationManager.instance = new PushNotificationManager();
+    }
+    return PushNotificationManager.instance;
+  }
+
+  isSupported(): boolean {
+    return 'serviceWorker' in navigator && 'PushManager' in window && 'Notification' in window;
+  }
+
+  // Register the worker on load so notification actions work in the background;
+  // onScheduleUpdated runs when one of them changed a dose
+  async register(onScheduleUpdated: () => void) {
+    if (!this.isSupported()) return;
+    try {
+      await navigator.serviceWorker.register(SERVICE_WORKER_URL);
+      navigator.serviceWorker.addEventListener('message', (event) => {
+        if (event.data?.type === 'schedule-updated') onScheduleUpdated();
+      });
+    } catch (error) {
+      console.warn('Service worker registration failed', error);
+    }
+  }
+
+  async isSubscribed(): Promise<boolean> {
+    if (!this.isSupported()) return false;
+    const registration = await navigator.serviceWorker.getRegistration(SERVICE_WORKER_URL);
+    return !!(await registration?.pushManager.getSubscription());
+  }
+
+  // Ask for permission and send this browser's subscription to the server. Must run from a click.
+  async subscribe() {
+    if (!this.isSupported()) {
+      throw new Error('This browser does not support push notifications');
+    }
+    const permission = await Notification.requestPermission();
+    if (permission !== 'granted') {
+      throw new Error('Notifications are blocked for this site');
+    }
+
+    const registration = await navigator.serviceWorker.register(SERVICE_WORKER_URL);
+    await navigator.serviceWorker.ready;
+    const response = await apiRequest('GET', '/api/push/vapid-public-key');
+    const { publicKey } = await response.json();
+    const subscription = await registration.pushManager.getSubscription() ?? await registration.pushManager.subscribe({
+      userVisibleOnly: true,
+      applicationServerKey: urlBase64ToUint8Array(publicKey),
+    });
+    await apiRequest('POST', '/api/push/subscribe', subscription.toJSON());
+  }
+
+  async unsubscribe() {
+    if (!this.isSupported()) return;
+    const registration = await navigator.serviceWorker.getRegistration(SERVICE_WORKER_URL);
+    const subscription = await registration?.pushManager.getSubscription();
+    if (!subscription) return;
+    await apiRequest('DELETE', '/api/push/subscribe', { endpoint: subscription.endpoint });
+    await subscription.unsubscribe();
+  }
+}
@@ -1,5 +1,12 @@
 import { createRoot } from "react-dom/client";
 import App from "./App";
+import { queryClient } from "./lib/queryClient";
+import { PushNotificationManager } from "./lib/push";
 import "./index.css";
 
 createRoot(document.getElementById("root")!).render(<App />);
+
+// Doses marked done or snoozed from a notification show up without a reload
+PushNotificationManager.getInstance().register(() => {
+  queryClient.invalidateQueries({ queryKey: ['/api/schedule'] });
+});
@@ -2,17 +2,27 @@ import { useState, useEffect } from "react";
 import { ChevronLeft, ChevronRight, Calendar as CalendarIcon, Grid3x3, Rows3, Square, ChevronDown } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
-// Dialog imports removed - no longer needed
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } from "@/components/ui/dialog";
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 import CalendarDay from "@/components/calendar-day";
 import DayEditModal from "@/components/day-edit-modal";
 import CalendarExport from "@/components/calendar-export";
+import LadderProgress from "@/components/ladder-progress";
+import ReactionForm from "@/components/reaction-form";
+import ReactionList from "@/components/reaction-list";
+import ReactionBanner from "@/components/reaction-banner";
+import EntryStatusNote from "@/components/entry-status-note";
+import AdherenceSummary from "@/components/adherence-summary";
 // Scanner component removed
 
 import UndoButton from "@/components/undo-button";
 
 import SettingsModal from "@/components/settings-modal";
-import { type Food, type ScheduleEntry } from "@shared/schema";
+import { type Food, type Pause, type Product, type ScheduleEntry } from "@shared/schema";
+import { pauseCovers, pauseReasonLabels } from "@shared/pauses";
+import { getObservationMinutes, getRestRules } from "@shared/observation";
+import { getRecurrence, doseSlotLabel } from "@shared/recurrence";
+import { formatQuantity } from "@shared/quantity";
 import { getMonthDays, formatMonthYear, isToday, isSameMonth, formatDate } from "@/lib/date-utils";
 import { apiRequest } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
@@ -41,6 +51,8 @@ export default function CalendarView({ onNavigateToAddFood, onNavigateToManageFo
   const [currentDate, setCurrentDate] = useState(new Date());
   const [selectedDate, setSelectedDate] = useState<Date | null>(null);
   const [viewMode, setViewMode] = useState<'month' | 'week' | 'day'>('week');
+  // Dose a reaction is being logged for from the day view
+  const [reactionEntry, setReactionEntry] = useState<ScheduleEntry | null>(null);
   // Scanner state removed
   const { toast } = useToast();
   const queryClient = useQueryClient();
@@ -81,6 +93,15 @@ export default function CalendarView({ onNavigateToAddFood, onNavigateToManageFo
     queryKey: ['/api/foods'],
   });
 
+  const { data: products = [] } = useQuery<Product[]>({
+    queryKey: ['/api/products'],
+  });
+
+  const { data: pauses = [] } = useQuery<Pause[]>({
+    queryKey: ['/api/pauses'],
+  });
+
+  // Months past the rolling schedule horizon are scheduled by the server when fetched
   const { data: scheduleEntries = [] } = useQuery<ScheduleEntry[]>({
     queryKey: ['/api/schedule', { 
       startDate: formatDate(startDate), 
@@ -142,18 +163,21 @@ export default function CalendarView({ onNavigateToAddFood, onNavigateToManageFo
     setSelectedDate(date);
   };
 
-  // Calculate today's completion stats
-  const todayString = formatDate(new Date());
-  const todayEntries = scheduleEntries.filter(entry => entry.date === todayString);
-  const completedToday = todayEntries.filter(entry => entry.isCompleted).length;
-  const totalToday = todayEntries.length;
-
   const completeFoodMutation = useMutation({
     mutationFn: async ({ entryId, isCompleted }: { entryId: number; isCompleted: boolean }) => {
       return apiRequest('PATCH', `/api/schedule/${entryId}`, { isCompleted });
     },
-    onSuccess: () => {
+    onSuccess: (_, { entryId, isCompleted }) => {
       queryClient.invalidateQueries({ queryKey: ['/api/schedule'] });
+      // The header timer picks the dose up from its completion time
+      const food = foods.find(f => f.id === scheduleEntries.find(entry => entry.id === entryId)?.foodId);
+      if (isCompleted && food && getObservationMinutes(food) > 0) {
+        toast({
+          title: `Observation started: ${getObservationMinutes(food)} min`,
+          description: getRestRules(food).join(' · '),
+        });
+        return;
+      }
       toast({
         title: "Status updated",
         description: "Food completion status updated.",
@@ -177,6 +201,7 @@ export default function CalendarView({ onNavigateToAddFood, onNavigateToManageFo
     const dayFoods = dayEntries.map(entry => 
       foods.find(food => food.id === entry.foodId)
     ).filter(Boolean) as Food[];
+    const dayPauses = pauses.filter(pause => pauseCovers(pause, formatDate(currentDate)));
 
     return (
       <div className="space-y-4">
@@ -189,12 +214,20 @@ export default function CalendarView({ onNavigateToAddFood, onNavigateToManageFo
           </p>
         </div>
         
+        {dayPauses.map(pause => (
+          <div key={pause.id} className="p-3 rounded-lg text-sm bg-slate-100 text-slate-700">
+            ⏸ {foods.find(f => f.id === pause.foodId)?.name ?? 'All foods'} paused · {pauseReasonLabels[pause.reason]}
+            {pause.note && <span className="text-slate-500"> · {pause.note}</span>}
+          </div>
+        ))}
+
         {dayFoods.length > 0 ? (
           <div className="space-y-3">
             <h4 className="font-semibold" style={{ color: 'hsl(var(--apple-dark))' }}>Today's Foods:</h4>
             {dayEntries.map(entry => {
               const food = foods.find(f => f.id === entry.foodId);
               if (!food) return null;
+              const slotLabel = doseSlotLabel(entry.doseSlot, getRecurrence(food).dosesPerDay);
               
               return (
                 <div key={entry.id} className="minecraft-food-card flex items-center space-x-3 p-3 rounded-lg bg-gray-50 transform transition-all duration-300 hover:scale-105 hover:shadow-lg">
@@ -231,6 +264,7 @@ export default function CalendarView({ onNavigateToAddFood, onNavigateToManageFo
                   <div className="flex-1">
                     <p className={`font-medium ${entry.isCompleted ? 'line-through text-gray-500' : ''}`}>
                       {food.name}
+                      {slotLabel && <span className="ml-2 text-xs font-normal text-gray-500">{slotLabel}</span>}
                     </p>
                     <p className={`text-sm ${entry.isCompleted ? 'line-through text-gray-400' : ''}`} 
                        style={{ color: entry.isCompleted ? 'hsl(var(--apple-light))' : 'hsl(var(--apple-medium))' }}>
@@ -241,6 +275,7 @@ export default function CalendarView({ onNavigateToAddFood, onNavigateToManageFo
                       <p className={`text-xs font-medium ${entry.isCompleted ? 'line-through text-gray-400' : ''}`}
                          style={{ color: entry.isCompleted ? 'hsl(var(--apple-light))' : '#FF9500' }}>
                         💊 Amount: {entry.calculatedAmount}
+                        {entry.proteinMg != null && ` of ${products.find(product => product.id === food.productId)?.name ?? 'product'} (${formatQuantity({ value: entry.proteinMg, unit: 'mg' })} protein)`}
                       </p>
                     )}
                     {/* Progressive time display */}
@@ -250,7 +285,24 @@ export default function CalendarView({ onNavigateToAddFood, onNavigateToManageFo
                         ⏰ Time: {entry.calculatedTime}
                       </p>
                     )}
+                    {/* Missed-dose adjustment */}
+                    {entry.adjustmentNote && entry.status === 'pending' && (
+                      <p className="text-xs font-medium text-amber-600">
+                        ⚠️ {entry.adjustmentNote}
+                      </p>
+                    )}
+                    <EntryStatusNote entry={entry} food={food} />
                   </div>
+                  {entry.isCompleted && (
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => setReactionEntry(entry)}
+                      className="text-orange-500 hover:text-orange-600"
+                    >
+                      Log Reaction
+                    </Button>
+                  )}
                 </div>
               );
             })}
@@ -260,6 +312,8 @@ export default function CalendarView({ onNavigateToAddFood, onNavigateToManageFo
             <p style={{ color: 'hsl(var(--apple-medium))' }}>No foods scheduled for this day</p>
           </div>
         )}
+
+        <ReactionList date={formatDate(currentDate)} foods={foods} />
       </div>
     );
   };
@@ -280,6 +334,7 @@ export default function CalendarView({ onNavigateToAddFood, onNavigateToManageFo
           const dayFoods = dayEntries.map(entry => 
             foods.find(food => food.id === entry.foodId)
           ).filter(Boolean) as Food[];
+          const foodCount = new Set(dayFoods.map(food => food.id)).size;
 
           return (
             <div
@@ -296,8 +351,8 @@ export default function CalendarView({ onNavigateToAddFood, onNavigateToManageFo
                   {day.toLocaleDateString('en-US', { weekday: 'long', month: 'short', day: 'numeric' })}
                   {isToday(day) && <span className="ml-2 text-sm font-normal text-blue-500">(Today)</span>}
                 </div>
-                {dayFoods.length > 0 && (
-                  <span className="text-sm text-gray-500">{dayFoods.length} food{dayFoods.length !== 1 ? 's' : ''}</span>
+                {foodCount > 0 && (
+                  <span className="text-sm text-gray-500">{foodCount} food{foodCount !== 1 ? 's' : ''}</span>
                 )}
               </div>
               
@@ -306,6 +361,7 @@ export default function CalendarView({ onNavigateToAddFood, onNavigateToManageFo
                   {dayEntries.map(entry => {
                     const food = foods.find(f => f.id === entry.foodId);
                     if (!food) return null;
+                    const slotLabel = doseSlotLabel(entry.doseSlot, getRecurrence(food).dosesPerDay);
                     
                     return (
                       <div key={entry.id} className="flex items-center space-x-3 p-3 bg-white rounded-lg border border-gray-100 calendar-item perfect-shadow">
@@ -333,6 +389,7 @@ export default function CalendarView({ onNavigateToAddFood, onNavigateToManageFo
                         <div className="flex-1 min-w-0">
                           <p className={`font-medium text-sm truncate ${entry.isCompleted ? 'line-through text-gray-500' : 'text-gray-900'}`}>
                             {food.name}
+                            {slotLabel && <span className="ml-2 text-xs font-normal text-gray-500">{slotLabel}</span>}
                           </p>
                           <p className={`text-xs truncate ${entry.isCompleted ? 'line-through text-gray-400' : 'text-gray-500'}`}>
                             {food.instructions}
@@ -342,6 +399,7 @@ export default function CalendarView({ onNavigateToAddFood, onNavigateToManageFo
                             <p className={`text-xs font-medium truncate ${entry.isCompleted ? 'line-through text-gray-400' : ''}`}
                                style={{ color: entry.isCompleted ? 'gray' : '#FF9500' }}>
                               💊 {entry.calculatedAmount}
+                              {entry.proteinMg != null && ` (${formatQuantity({ value: entry.proteinMg, unit: 'mg' })} protein)`}
                             </p>
                           )}
                           {/* Progressive time display */}
@@ -351,6 +409,13 @@ export default function CalendarView({ onNavigateToAddFood, onNavigateToManageFo
                               ⏰ {entry.calculatedTime}
                             </p>
                           )}
+                          {/* Missed-dose adjustment */}
+                          {entry.adjustmentNote && entry.status === 'pending' && (
+                            <p className="text-xs font-medium truncate text-amber-600" title={entry.adjustmentNote}>
+                              ⚠️ {entry.adjustmentNote}
+                            </p>
+                          )}
+                          <EntryStatusNote entry={entry} food={food} className="truncate" />
                         </div>
                       </div>
                     );
@@ -389,7 +454,9 @@ export default function CalendarView({ onNavigateToAddFood, onNavigateToManageFo
               isToday={isToday(day)}
               scheduleEntries={scheduleEntries.filter(entry => entry.date === formatDate(day))}
               foods={foods}
+              pauses={pauses}
               onClick={handleDayClick}
+              onCompleteFood={handleCompleteFood}
             />
           ))}
         </div>
@@ -501,6 +568,11 @@ export default function CalendarView({ onNavigateToAddFood, onNavigateToManageFo
         </div>
       </div>
 
+      {/* Reaction follow-ups, adherence and ladder progress */}
+      <ReactionBanner foods={foods} className="mb-4" />
+      <AdherenceSummary entries={scheduleEntries} className="mb-4" />
+      <LadderProgress foods={foods} className="mb-4" />
+
       {/* Calendar Content */}
       <div className="min-h-96">
         {viewMode === 'day' && renderDayView()}
@@ -508,6 +580,27 @@ export default function CalendarView({ onNavigateToAddFood, onNavigateToManageFo
         {viewMode === 'month' && renderMonthView()}
       </div>
 
+      {/* Reaction Modal */}
+      <Dialog open={reactionEntry !== null} onOpenChange={(open) => !open && setReactionEntry(null)}>
+        <DialogContent className="max-w-md max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>Log Reaction</DialogTitle>
+            <DialogDescription>
+              What happened after {foods.find(food => food.id === reactionEntry?.foodId)?.name ?? 'this dose'}?
+            </DialogDescription>
+          </DialogHeader>
+          {reactionEntry && (
+            <ReactionForm
+              date={reactionEntry.date}
+              foods={foods}
+              entry={reactionEntry}
+              onSuccess={() => setReactionEntry(null)}
+              onCancel={() => setReactionEntry(null)}
+            />
+          )}
+        </DialogContent>
+      </Dialog>
+
       {/* Day Edit Modal */}
       <DayEditModal
         isOpen={selectedDate !== null}
@@ -1,10 +1,16 @@
 import { useState } from "react";
-import { Edit, Trash2, Download, Upload } from "lucide-react";
+import { Edit, Trash2, Download, Upload, Pause as PauseIcon } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 import FoodForm from "@/components/food-form";
-import { type Food } from "@shared/schema";
+import LadderForm from "@/components/ladder-form";
+import LadderProgress from "@/components/ladder-progress";
+import PauseForm from "@/components/pause-form";
+import PauseList from "@/components/pause-list";
+import { type Food, type LadderWithProgress, type Pause } from "@shared/schema";
+import { findPause } from "@shared/pauses";
+import { formatDate } from "@/lib/date-utils";
 import { apiRequest } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
 
@@ -23,6 +29,9 @@ const colorMap: Record<string, string> = {
 
 export default function ManageFoodsView() {
   const [editingFood, setEditingFood] = useState<Food | null>(null);
+  const [ladderDialogOpen, setLadderDialogOpen] = useState(false);
+  const [pauseDialogOpen, setPauseDialogOpen] = useState(false);
+  const [pausingFood, setPausingFood] = useState<Food | null>(null);
   const { toast } = useToast();
   const queryClient = useQueryClient();
 
@@ -30,6 +39,15 @@ export default function ManageFoodsView() {
     queryKey: ['/api/foods'],
   });
 
+  const { data: ladders = [] } = useQuery<LadderWithProgress[]>({
+    queryKey: ['/api/ladders'],
+  });
+
+  const { data: pauses = [] } = useQuery<Pause[]>({
+    queryKey: ['/api/pauses'],
+  });
+  const today = formatDate(new Date());
+
   const deleteMutation = useMutation({
     mutationFn: async (id: number) => {
       return apiRequest('DELETE', `/api/foods/${id}`);
@@ -227,9 +245,29 @@ export default function ManageFoodsView() {
                     <div className="text-xs mt-1" style={{ color: 'hsl(var(--apple-light))' }}>
                       Started: {new Date(food.startDate).toLocaleDateString()}
                     </div>
+                    {food.ladderId !== null && (
+                      <div className="text-xs mt-1 text-purple-600">
+                        🪜 {ladders.find(ladder => ladder.id === food.ladderId)?.name ?? 'Ladder'} · Rung {(food.ladderRung ?? 0) + 1}
+                      </div>
+                    )}
+                    {findPause(pauses, food.id, today) && (
+                      <div className="text-xs mt-1 text-slate-600">
+                        ⏸ Paused
+                      </div>
+                    )}
                   </div>
                 </div>
                 <div className="flex items-center space-x-2">
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => setPausingFood(food)}
+                    className="minecraft-action-btn p-2 hover:bg-slate-100"
+                    style={{ color: 'hsl(var(--apple-medium))' }}
+                    title="Pause"
+                  >
+                    <PauseIcon size={18} />
+                  </Button>
                   <Button
                     variant="ghost"
                     size="sm"
@@ -279,6 +317,75 @@ export default function ManageFoodsView() {
           </div>
         )}
 
+        <Dialog open={pausingFood !== null} onOpenChange={(open) => !open && setPausingFood(null)}>
+          <DialogContent className="max-w-md">
+            <DialogHeader>
+              <DialogTitle>Pause {pausingFood?.name}</DialogTitle>
+            </DialogHeader>
+            {pausingFood && (
+              <PauseForm foods={foods} food={pausingFood} onSuccess={() => setPausingFood(null)} />
+            )}
+          </DialogContent>
+        </Dialog>
+
+        {/* Pauses */}
+        <div className="mt-6 pt-4 border-t space-y-3" style={{ borderColor: 'hsl(var(--apple-border))' }}>
+          <div className="flex items-center justify-between">
+            <h4 className="text-sm font-medium" style={{ color: 'hsl(var(--apple-dark))' }}>
+              Pauses
+            </h4>
+            <Dialog open={pauseDialogOpen} onOpenChange={setPauseDialogOpen}>
+              <DialogTrigger asChild>
+                <Button variant="outline" size="sm" className="text-sm">
+                  ⏸ Pause All Foods
+                </Button>
+              </DialogTrigger>
+              <DialogContent className="max-w-md">
+                <DialogHeader>
+                  <DialogTitle>Pause Dosing</DialogTitle>
+                </DialogHeader>
+                <PauseForm foods={foods} onSuccess={() => setPauseDialogOpen(false)} />
+              </DialogContent>
+            </Dialog>
+          </div>
+          {pauses.some(pause => !pause.endDate || pause.endDate >= today) ? (
+            <PauseList foods={foods} />
+          ) : (
+            <p className="text-sm" style={{ color: 'hsl(var(--apple-medium))' }}>
+              Taking a break for illness, travel or on your allergist's advice? Pause one food or all of them and resume when you're ready.
+            </p>
+          )}
+        </div>
+
+        {/* Food Ladders */}
+        <div className="mt-6 pt-4 border-t space-y-3" style={{ borderColor: 'hsl(var(--apple-border))' }}>
+          <div className="flex items-center justify-between">
+            <h4 className="text-sm font-medium" style={{ color: 'hsl(var(--apple-dark))' }}>
+              Food Ladders
+            </h4>
+            <Dialog open={ladderDialogOpen} onOpenChange={setLadderDialogOpen}>
+              <DialogTrigger asChild>
+                <Button variant="outline" size="sm" className="text-sm">
+                  🪜 Create Ladder
+                </Button>
+              </DialogTrigger>
+              <DialogContent className="max-w-md">
+                <DialogHeader>
+                  <DialogTitle>Create Food Ladder</DialogTitle>
+                </DialogHeader>
+                <LadderForm foods={foods} onSuccess={() => setLadderDialogOpen(false)} />
+              </DialogContent>
+            </Dialog>
+          </div>
+          {ladders.length === 0 ? (
+            <p className="text-sm" style={{ color: 'hsl(var(--apple-medium))' }}>
+              Group foods into a ladder (e.g. muffin → pancake → cheese → yogurt → milk) to track which rung you are on.
+            </p>
+          ) : (
+            <LadderProgress foods={foods} showManageActions />
+          )}
+        </div>
+
         {/* Quick Actions */}
         <div className="mt-6 pt-4 border-t" style={{ borderColor: 'hsl(var(--apple-border))' }}>
           <h4 className="text-sm font-medium mb-3" style={{ color: 'hsl(var(--apple-dark))' }}>
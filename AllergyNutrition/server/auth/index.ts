@@ -141,6 +141,20 @@ export const isAuthenticated: RequestHandler = (req, res, next) => {
   next();
 };
 
+// Admins are the usernames listed in ADMIN_USERNAMES (comma separated)
+export const isAdmin: RequestHandler = async (req, res, next) => {
+  try {
+    const admins = (process.env.ADMIN_USERNAMES || "").split(",").map(name => name.trim()).filter(Boolean);
+    const user = await storage.getUserById((req.session as any).userId);
+    if (!user || !admins.includes(user.username)) {
+      return res.status(403).json({ message: "Admin access required" });
+    }
+    next();
+  } catch (error) {
+    res.status(500).json({ message: "Failed to check admin access" });
+  }
+};
+
 // Helper to get user ID from request
 export function getUserId(req: express.Request): string {
   return (req.session as any).userId;
@@ -0,0 +1,73 @@
+import { type Food, type InsertScheduleEntry, type Ladder } from "@shared/schema";
+import { storage } from "./storage";
+import { addDays, generateScheduleEntries, today } from "./schedule";
+
+// How far ahead every active food has entries
+export const HORIZON_WEEKS = parseInt(process.env.SCHEDULE_HORIZON_WEEKS || "12");
+// Furthest ahead a calendar view can have entries made for it
+const MAX_AHEAD_WEEKS = 104;
+
+// Last day the rolling horizon covers
+export function horizonDate(): string {
+  return addDays(today(), HORIZON_WEEKS * 7);
+}
+
+// Ladder foods are only scheduled while they're the current rung
+export function isScheduled(food: Food, ladders: Ladder[]): boolean {
+  if (food.ladderId == null) return true;
+  const ladder = ladders.find(l => l.id === food.ladderId);
+  return !!ladder && ladder.isActive && ladder.currentRung === food.ladderRung;
+}
+
+// Add entries after each of the user's foods' last entry up to `untilDate`, numbering
+// occurrences on from it. Returns how many entries were created.
+export async function extendUserSchedules(userId: string, untilDate: string, userFoods?: Food[]): Promise<number> {
+  const foods = userFoods ?? await storage.getFoods(userId);
+  const ladders = await storage.getLadders(userId);
+  const scheduledFoods = foods.filter(food => food.isActive && isScheduled(food, ladders));
+  if (scheduledFoods.length === 0) return 0;
+
+  const entries = await storage.getScheduleEntries(userId);
+  const pauses = await storage.getPauses(userId);
+  const newEntries: InsertScheduleEntry[] = [];
+
+  for (const food of scheduledFoods) {
+    const last = entries
+      .filter(entry => entry.foodId === food.id)
+      .sort((a, b) => a.date.localeCompare(b.date) || a.doseSlot - b.doseSlot)
+      .pop();
+    if (last && last.date >= untilDate) continue;
+
+    const product = food.productId ? await storage.getProduct(food.productId, userId) : undefined;
+    newEntries.push(...generateScheduleEntries(food, last ? addDays(last.date, 1) : food.startDate, untilDate, {
+      product,
+      pauses,
+      firstOccurrenceNumber: last ? (last.occurrenceNumber ?? 0) + 1 : 0,
+    }));
+  }
+
+  const upserted = await storage.upsertScheduleEntries(newEntries, userId);
+  return upserted.filter(({ outcome }) => outcome === "created").length;
+}
+
+// Schedule a range someone is looking at beyond the horizon, e.g. a future calendar month
+export async function ensureScheduledThrough(userId: string, endDate: string): Promise<number> {
+  if (endDate <= horizonDate()) return 0;
+  const maxDate = addDays(today(), MAX_AHEAD_WEEKS * 7);
+  return extendUserSchedules(userId, endDate < maxDate ? endDate : maxDate);
+}
+
+// Keep every user's schedule HORIZON_WEEKS ahead
+export async function extendAllSchedules(): Promise<number> {
+  const untilDate = horizonDate();
+  const foodsByUser = new Map<string, Food[]>();
+  for (const food of await storage.getAllActiveFoods()) {
+    foodsByUser.set(food.userId, [...(foodsByUser.get(food.userId) ?? []), food]);
+  }
+
+  let created = 0;
+  for (const [userId, foods] of Array.from(foodsByUser.entries())) {
+    created += await extendUserSchedules(userId, untilDate, foods);
+  }
+  return created;
+}
@@ -1,6 +1,7 @@
 import express, { type Request, Response, NextFunction } from "express";
 import { registerRoutes } from "./routes";
 import { setupVite, serveStatic, log } from "./vite";
+import { startJobRunner } from "./jobs";
 
 const app = express();
 app.use(express.json({ limit: '50mb' }));
@@ -87,6 +88,7 @@ process.on('SIGINT', () => {
       host: "0.0.0.0",
     }, () => {
       log(`serving on port ${port}`);
+      startJobRunner().catch(error => log(`job runner failed to start: ${String(error)}`, "jobs"));
     });
   } catch (error) {
     log('Failed to start server:', String(error));
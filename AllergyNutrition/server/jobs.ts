@@ -0,0 +1,143 @@
+import os from "os";
+import { randomUUID } from "crypto";
+import { type Job } from "@shared/schema";
+import { storage } from "./storage";
+import { markMissedDoses } from "./nightly";
+import { evaluateAllMissedDoses } from "./missed-doses";
+import { runReminders } from "./reminders";
+import { extendAllSchedules, HORIZON_WEEKS } from "./horizon";
+import { advanceDueLadders } from "./ladders";
+import { log } from "./vite";
+
+const MINUTE_MS = 1000 * 60;
+const HOUR_MS = MINUTE_MS * 60;
+const DAY_MS = HOUR_MS * 24;
+const TICK_MS = 15 * 1000;
+const RETRY_MS = 5 * MINUTE_MS; // Failed runs are retried after this rather than waiting for the next slot
+const RUN_HISTORY_DAYS = 14;
+
+// Identifies this process in job locks and runs
+const instanceId = `${os.hostname()}:${process.pid}:${randomUUID().slice(0, 8)}`;
+
+interface JobDefinition {
+  name: string;
+  lockMs: number; // Longest a run may take before another instance can take over
+  nextRunAt: (after: Date) => Date;
+  run: (now: Date) => Promise<string>; // Returns a summary for the run history
+}
+
+function every(intervalMs: number) {
+  return (after: Date) => new Date(Math.floor(after.getTime() / intervalMs) * intervalMs + intervalMs);
+}
+
+// Just after each UTC midnight, since schedule dates are UTC days
+function afterMidnight(after: Date): Date {
+  return new Date(every(DAY_MS)(after).getTime() + 1000);
+}
+
+// Just after each hour, for jobs that go by each user's local date, so every user's
+// day is picked up within the hour of their own midnight
+function afterEachHour(after: Date): Date {
+  return new Date(every(HOUR_MS)(after).getTime() + 1000);
+}
+
+const jobDefinitions: JobDefinition[] = [
+  {
+    name: "mark-missed-doses",
+    lockMs: 10 * MINUTE_MS,
+    nextRunAt: afterEachHour,
+    run: async (now) => `${await markMissedDoses(now)} doses marked missed`,
+  },
+  {
+    // Listed after mark-missed-doses so a due run sees last night's missed doses
+    name: "apply-missed-dose-rules",
+    lockMs: 10 * MINUTE_MS,
+    nextRunAt: afterEachHour,
+    run: async (now) => `${await evaluateAllMissedDoses(now)} upcoming doses adjusted for missed doses`,
+  },
+  {
+    name: "advance-ladders",
+    lockMs: 10 * MINUTE_MS,
+    nextRunAt: afterMidnight,
+    run: async () => `${await advanceDueLadders()} ladder rungs advanced`,
+  },
+  {
+    name: "extend-schedules",
+    lockMs: 30 * MINUTE_MS,
+    nextRunAt: afterMidnight,
+    run: async () => `${await extendAllSchedules()} entries added to keep ${HORIZON_WEEKS} weeks ahead`,
+  },
+  {
+    name: "send-reminders",
+    lockMs: 5 * MINUTE_MS,
+    nextRunAt: every(MINUTE_MS),
+    run: async (now) => `${await runReminders(now)} reminders sent`,
+  },
+  {
+    name: "purge-expired",
+    lockMs: 10 * MINUTE_MS,
+    nextRunAt: every(HOUR_MS),
+    run: async (now) => {
+      const sessions = await storage.purgeExpiredSessions(now);
+      const runs = await storage.deleteJobRunsBefore(new Date(now.getTime() - RUN_HISTORY_DAYS * DAY_MS));
+      return `${sessions} sessions and ${runs} old job runs deleted`;
+    },
+  },
+];
+
+// Run the job if it's due and no other instance holds it
+async function runIfDue(job: JobDefinition) {
+  const now = new Date();
+  const claimed = await storage.claimJob(job.name, instanceId, now, new Date(now.getTime() + job.lockMs));
+  if (!claimed) return;
+
+  const run = await storage.createJobRun({
+    jobName: job.name,
+    instanceId,
+    status: "running",
+    startedAt: now,
+    finishedAt: null,
+    result: null,
+    error: null,
+  });
+
+  let status: NonNullable<Job["lastStatus"]> = "succeeded";
+  let result: string | null = null;
+  let error: string | null = null;
+  try {
+    result = await job.run(now);
+  } catch (err) {
+    status = "failed";
+    error = err instanceof Error ? err.message : String(err);
+    log(`${job.name} failed: ${error}`, "jobs");
+  }
+
+  await storage.finishJobRun(run.id, { status, finishedAt: new Date(), result, error });
+  const finishedAt = new Date();
+  const nextRunAt = status === "failed" ? new Date(finishedAt.getTime() + RETRY_MS) : job.nextRunAt(finishedAt);
+  await storage.releaseJob(job.name, instanceId, status, nextRunAt);
+}
+
+// Start the in-process runner. Each instance checks every few seconds; the lock in the
+// jobs table makes sure a due run happens on only one of them. New jobs run straight
+// away, which catches up after downtime.
+export async function startJobRunner() {
+  const startedAt = new Date();
+  for (const job of jobDefinitions) {
+    await storage.ensureJob(job.name, startedAt);
+  }
+
+  let ticking = false;
+  const tick = async () => {
+    if (ticking) return;
+    ticking = true;
+    for (const job of jobDefinitions) {
+      await runIfDue(job).catch(error => log(`${job.name} could not run: ${String(error)}`, "jobs"));
+    }
+    ticking = false;
+  };
+
+  tick();
+  setInterval(tick, TICK_MS).unref();
+  log(`job runner started as ${instanceId}`, "jobs");
+}
@@ -0,0 +1,133 @@
+import { type Food, type InsertLadder, type Ladder, type LadderWithProgress } from "@shared/schema";
+import { storage } from "./storage";
+import { addDays, generateScheduleEntries, today } from "./schedule";
+import { horizonDate } from "./horizon";
+
+const FOREVER_DURATION = 999999; // "Forever" option in the food form
+
+async function getLadderFoods(ladder: Ladder, userId: string): Promise<Food[]> {
+  const foods = await storage.getFoods(userId);
+  return foods
+    .filter(food => food.ladderId === ladder.id)
+    .sort((a, b) => (a.ladderRung ?? 0) - (b.ladderRung ?? 0));
+}
+
+// Days a rung's buildup lasts: its protocol steps, or the progression duration
+function rungDuration(food: Food): number | null {
+  if (food.progressionType === 'steps' && food.doseSteps?.length) {
+    return food.doseSteps.reduce((total, step) => total + step.days, 0);
+  }
+  return food.progressionDuration;
+}
+
+function withProgress(ladder: Ladder, rungFoods: Food[]): LadderWithProgress {
+  const currentFood = rungFoods[ladder.currentRung];
+  const duration = currentFood ? rungDuration(currentFood) : null;
+  const nextAdvanceDate = duration && duration < FOREVER_DURATION
+    ? addDays(ladder.rungStartedAt, duration + currentFood.progressionOffsetDays)
+    : null;
+  const isLastRung = ladder.currentRung >= rungFoods.length - 1;
+
+  return {
+    ...ladder,
+    foodIds: rungFoods.map(food => food.id),
+    nextAdvanceDate,
+    readyToAdvance: !isLastRung && nextAdvanceDate !== null && nextAdvanceDate <= today(),
+  };
+}
+
+// Group existing foods into a ladder. Only the first rung keeps its upcoming doses;
+// later rungs are scheduled when the ladder reaches them. Dose history is kept.
+export async function createLadder(input: InsertLadder, userId: string): Promise<LadderWithProgress | undefined> {
+  const foods = await storage.getFoods(userId);
+  const rungFoods = input.foodIds.map(id => foods.find(food => food.id === id));
+  if (rungFoods.some(food => !food || food.ladderId !== null)) {
+    return undefined;
+  }
+
+  const ladder = await storage.createLadder({
+    name: input.name,
+    advanceMode: input.advanceMode,
+    rungStartedAt: rungFoods[0]!.startDate,
+  }, userId);
+
+  for (let rung = 0; rung < rungFoods.length; rung++) {
+    const food = rungFoods[rung]!;
+    await storage.updateFoodLadder(food.id, ladder.id, rung, userId);
+    if (rung > 0) {
+      await storage.deleteFutureScheduleEntriesForFood(food.id, today(), userId);
+    }
+  }
+
+  return withProgress(ladder, await getLadderFoods(ladder, userId));
+}
+
+// Move to the next rung on `date`: stop the current food's remaining doses
+// and start the next food's schedule from that day, in one transaction
+export async function advanceLadder(ladder: Ladder, date: string, userId: string): Promise<LadderWithProgress | undefined> {
+  const rungFoods = await getLadderFoods(ladder, userId);
+  const currentFood = rungFoods[ladder.currentRung];
+  const nextFood = rungFoods[ladder.currentRung + 1];
+  if (!nextFood) return undefined;
+
+  const startedFood = { ...nextFood, startDate: date, progressionOffsetDays: 0 };
+  const endDate = [horizonDate(), date].sort().pop()!;
+  const product = startedFood.productId ? await storage.getProduct(startedFood.productId, userId) : undefined;
+  const pauses = await storage.getPauses(userId);
+  const rungFoodIds = [currentFood?.id, startedFood.id];
+  const replaced = (await storage.getScheduleEntries(userId)).filter(entry =>
+    rungFoodIds.includes(entry.foodId) && entry.status === "pending" && entry.date >= date
+  );
+
+  await storage.applyScheduleChanges({
+    foodUpdates: [{ id: startedFood.id, changes: { startDate: date, progressionOffsetDays: 0 } }],
+    deleteIds: replaced.map(entry => entry.id),
+    updates: [],
+    upserts: generateScheduleEntries(startedFood, date, endDate, { product, pauses }),
+  }, userId);
+
+  const updated = await storage.updateLadder(ladder.id, {
+    currentRung: ladder.currentRung + 1,
+    rungStartedAt: date,
+  }, userId);
+
+  return updated ? withProgress(updated, await getLadderFoods(updated, userId)) : undefined;
+}
+
+// The user's ladders with their progress. Date-based ladders are advanced by the
+// advance-ladders job, not here.
+export async function getLaddersWithProgress(userId: string): Promise<LadderWithProgress[]> {
+  const ladders = await storage.getLadders(userId);
+  const result: LadderWithProgress[] = [];
+  for (const ladder of ladders) {
+    result.push(withProgress(ladder, await getLadderFoods(ladder, userId)));
+  }
+  return result;
+}
+
+// Advance every date-based ladder whose current rung is over, possibly several rungs
+// after downtime. Returns the number of rungs advanced.
+export async function advanceDueLadders(): Promise<number> {
+  let advancedRungs = 0;
+  for (const ladder of await storage.getAllActiveLadders()) {
+    if (ladder.advanceMode !== 'date') continue;
+    let progress = withProgress(ladder, await getLadderFoods(ladder, ladder.userId));
+
+    while (progress.readyToAdvance && progress.nextAdvanceDate) {
+      const advanced = await advanceLadder(progress, progress.nextAdvanceDate, ladder.userId);
+      if (!advanced) break;
+      progress = advanced;
+      advancedRungs++;
+    }
+  }
+  return advancedRungs;
+}
+
+// Dissolve a ladder; its foods stay as standalone foods
+export async function deleteLadder(ladder: Ladder, userId: string): Promise<void> {
+  const rungFoods = await getLadderFoods(ladder, userId);
+  for (const food of rungFoods) {
+    await storage.updateFoodLadder(food.id, null, null, userId);
+  }
+  await storage.updateLadder(ladder.id, { isActive: false }, userId);
+}
@@ -0,0 +1,26 @@
+import fs from "fs";
+import path from "path";
+import { pool } from "./db";
+
+// Data fixes `drizzle-kit push` can't make itself, such as removing duplicate rows
+// before it adds a unique index. Run before every push: each script is idempotent and
+// they run in file name order.
+const MIGRATIONS_DIR = path.resolve(import.meta.dirname, "migrations");
+
+async function migrate() {
+  if (!pool) {
+    throw new Error("DATABASE_URL, ensure the database is provisioned");
+  }
+
+  const files = fs.readdirSync(MIGRATIONS_DIR).filter(file => file.endsWith(".sql")).sort();
+  for (const file of files) {
+    await pool.query(fs.readFileSync(path.join(MIGRATIONS_DIR, file), "utf8"));
+    console.log(`applied ${file}`);
+  }
+  await pool.end();
+}
+
+migrate().catch(error => {
+  console.error("Migration failed:", error);
+  process.exit(1);
+});
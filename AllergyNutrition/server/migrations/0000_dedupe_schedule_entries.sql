@@ -0,0 +1,34 @@
+-- Schedule generation used to insert the same dose again on every run. Keep one entry
+-- per user, food, date and dose slot, preferring one that records what happened to the
+-- dose, then add the unique index. Databases from before dose slots and statuses get
+-- those columns first, with statuses filled in from is_completed. Skipped on a fresh
+-- database, where db:push creates the table and index.
+DO $$
+BEGIN
+  IF to_regclass('public.schedule_entries') IS NOT NULL THEN
+    ALTER TABLE schedule_entries ADD COLUMN IF NOT EXISTS dose_slot integer NOT NULL DEFAULT 0;
+
+    IF NOT EXISTS (
+      SELECT 1 FROM information_schema.columns
+      WHERE table_schema = 'public' AND table_name = 'schedule_entries' AND column_name = 'status'
+    ) THEN
+      ALTER TABLE schedule_entries ADD COLUMN status text NOT NULL DEFAULT 'pending';
+      UPDATE schedule_entries SET status = 'completed' WHERE is_completed;
+    END IF;
+
+    DELETE FROM schedule_entries
+    WHERE id IN (
+      SELECT id FROM (
+        SELECT id, row_number() OVER (
+          PARTITION BY user_id, food_id, date, dose_slot
+          ORDER BY (status <> 'pending') DESC, id
+        ) AS copy
+        FROM schedule_entries
+      ) AS numbered
+      WHERE copy > 1
+    );
+
+    CREATE UNIQUE INDEX IF NOT EXISTS "UQ_schedule_entry_dose"
+      ON schedule_entries USING btree (user_id, food_id, date, dose_slot);
+  END IF;
+END $$;
@@ -0,0 +1,86 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { insertFoodSchema } from "@shared/schema";
+import { storage } from "./storage";
+import { generateScheduleEntries } from "./schedule";
+import { evaluateMissedDoses } from "./missed-doses";
+
+let userCount = 0;
+
+// A step protocol scheduled through October with doses taken up to `takenUntil`
+async function scheduledFood(takenUntil: string, missedDoseRules: { minMissedDays: number; action: "drop_step" | "contact_allergist" }[]) {
+  const userId = `missed-${++userCount}`;
+  const food = await storage.createFood(insertFoodSchema.parse({
+    name: "Peanut",
+    instructions: "",
+    color: "blue",
+    frequency: "Every day",
+    startDate: "2026-10-01",
+    progressionType: "steps",
+    doseSteps: [{ amount: "1 mg", days: 3 }, { amount: "3 mg", days: 3 }, { amount: "6 mg", days: 3 }, { amount: "12 mg", days: 3 }, { amount: "24 mg", days: 3 }],
+    missedDoseRules,
+  }), userId);
+  await storage.upsertScheduleEntries(generateScheduleEntries(food, food.startDate, "2026-10-31"), userId);
+  for (const entry of await storage.getScheduleEntries(userId)) {
+    if (entry.date <= takenUntil) {
+      await storage.updateScheduleEntry(entry.id, { status: "completed", isCompleted: true }, userId);
+    }
+  }
+  return { userId, food };
+}
+
+async function upcoming(userId: string, fromDate: string) {
+  return (await storage.getScheduleEntries(userId))
+    .filter(entry => entry.date >= fromDate)
+    .sort((a, b) => a.date.localeCompare(b.date));
+}
+
+beforeEach(() => {
+  vi.useFakeTimers({ toFake: ["Date"] });
+  vi.setSystemTime(new Date("2026-10-12T12:00:00.000Z"));
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe("evaluateMissedDoses", () => {
+  it("drops one step below the last dose taken and climbs again from there", async () => {
+    // Last dose taken was 6 mg on the 8th, then the 9th to the 11th were missed
+    const { userId, food } = await scheduledFood("2026-10-08", [{ minMissedDays: 3, action: "drop_step" }]);
+
+    expect(await evaluateMissedDoses(userId, "2026-10-12")).toBe(3);
+    const entries = await upcoming(userId, "2026-10-12");
+    expect(entries.slice(0, 9).map(entry => entry.calculatedAmount)).toEqual([
+      "3 mg", "3 mg", "3 mg", "6 mg", "6 mg", "6 mg", "12 mg", "12 mg", "12 mg",
+    ]);
+    expect(entries.slice(0, 4).map(entry => entry.adjustedForMissedDays)).toEqual([3, 3, 3, null]);
+    expect(entries[0].adjustmentNote).toBe("3 days missed: dropped one step to 3 mg for 3 days");
+    expect((await storage.getFood(food.id, userId))!.progressionOffsetDays).toBe(8);
+  });
+
+  it("applies a rule once per streak", async () => {
+    const { userId } = await scheduledFood("2026-10-08", [{ minMissedDays: 3, action: "drop_step" }]);
+
+    await evaluateMissedDoses(userId, "2026-10-12");
+    expect(await evaluateMissedDoses(userId, "2026-10-12")).toBe(0);
+  });
+
+  it("flags the next dose when the streak calls for the allergist", async () => {
+    const { userId } = await scheduledFood("2026-10-08", [
+      { minMissedDays: 2, action: "drop_step" },
+      { minMissedDays: 3, action: "contact_allergist" },
+    ]);
+
+    expect(await evaluateMissedDoses(userId, "2026-10-12")).toBe(1);
+    const [next, after] = await upcoming(userId, "2026-10-12");
+    expect(next).toMatchObject({ calculatedAmount: "12 mg", adjustedForMissedDays: 3 });
+    expect(next.adjustmentNote).toContain("contact your allergist");
+    expect(after.adjustmentNote).toBeNull();
+  });
+
+  it("does nothing while the streak is shorter than every rule", async () => {
+    const { userId } = await scheduledFood("2026-10-10", [{ minMissedDays: 3, action: "drop_step" }]);
+
+    expect(await evaluateMissedDoses(userId, "2026-10-12")).toBe(0);
+  });
+});
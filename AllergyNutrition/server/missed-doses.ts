@@ -0,0 +1,160 @@
+import { type Food, type InsertScheduleEntry, type MissedDoseRule, type ScheduleEntry } from "@shared/schema";
+import { storage } from "./storage";
+import { addDays, daysBetween, generateScheduleEntries, today } from "./schedule";
+import { horizonDate } from "./horizon";
+import { localDate } from "./time-zone";
+
+const CONTINUOUS_STEP_DAYS = 7; // One "step" of a continuous buildup is a week of progression
+
+// Consecutive dosing days before `date` without any completed dose, counted back
+// from the most recent one, and the last dose that was completed before them
+function findMissedStreak(entries: ScheduleEntry[], date: string): { missedDays: number; lastCompleted?: ScheduleEntry } {
+  const dates = Array.from(new Set(entries.filter(e => e.date < date).map(e => e.date))).sort().reverse();
+
+  let missedDays = 0;
+  for (const day of dates) {
+    const completed = entries.filter(e => e.date === day && e.isCompleted);
+    if (completed.length > 0) {
+      return { missedDays, lastCompleted: completed[completed.length - 1] };
+    }
+    missedDays++;
+  }
+  return { missedDays };
+}
+
+// The strictest rule the streak has reached
+function matchRule(rules: MissedDoseRule[], missedDays: number): MissedDoseRule | undefined {
+  return rules
+    .filter(rule => missedDays >= rule.minMissedDays)
+    .sort((a, b) => b.minMissedDays - a.minMissedDays)[0];
+}
+
+// Where the progression resumes after dropping one step: the start of the step
+// before the last completed one, or a week before the last completed dose
+function getStepDown(food: Food, lastCompleted?: ScheduleEntry): { date: string; holdDays: number } {
+  if (food.progressionType === 'steps' && food.doseSteps?.length) {
+    const step = Math.max((lastCompleted?.stepNumber ?? 0) - 1, 0);
+    const stepStartDay = food.doseSteps.slice(0, step).reduce((total, s) => total + s.days, 0);
+    return {
+      date: addDays(food.startDate, stepStartDay + food.progressionOffsetDays),
+      holdDays: food.doseSteps[step].days,
+    };
+  }
+
+  const stepDownDate = addDays(lastCompleted?.date ?? food.startDate, -CONTINUOUS_STEP_DAYS);
+  return {
+    date: stepDownDate > food.startDate ? stepDownDate : food.startDate,
+    holdDays: CONTINUOUS_STEP_DAYS,
+  };
+}
+
+// Drop the progression one step below `lastDose` from the first upcoming dose and carry
+// on from there: the food's progression is shifted back and its upcoming doses are
+// regenerated, so the buildup climbs again at its usual pace instead of jumping back
+// up once the lower step is over. `annotate` describes the change on the doses of that
+// lower step. `food` is the food as it was when `lastDose` was given. Returns the number
+// of doses annotated.
+export async function stepDownUpcoming(
+  food: Food,
+  lastDose: ScheduleEntry | undefined,
+  upcoming: ScheduleEntry[],
+  userId: string,
+  annotate: (amount: string | null, holdDays: number) => Pick<InsertScheduleEntry, 'adjustmentNote' | 'adjustedForMissedDays'>
+): Promise<number> {
+  // Stepping down only makes sense while the dose is building up
+  if (food.progressionType !== 'buildup' && food.progressionType !== 'custom' && food.progressionType !== 'steps') {
+    return 0;
+  }
+  if (upcoming.length === 0) return 0;
+
+  const resumeDate = upcoming[0].date;
+  const stepDown = getStepDown(food, lastDose);
+  const shiftedDays = Math.max(daysBetween(stepDown.date, resumeDate), 0);
+  const shiftedFood = { ...food, progressionOffsetDays: food.progressionOffsetDays + shiftedDays };
+
+  // Regenerate as far ahead as the food was already scheduled, and at least to the horizon
+  const lastDate = upcoming[upcoming.length - 1].date;
+  const endDate = [lastDate, horizonDate(), resumeDate].sort().pop()!;
+  const product = food.productId ? await storage.getProduct(food.productId, userId) : undefined;
+  const pauses = await storage.getPauses(userId);
+  const entries = generateScheduleEntries(shiftedFood, resumeDate, endDate, {
+    product,
+    pauses,
+    firstOccurrenceNumber: upcoming[0].occurrenceNumber ?? 0,
+  });
+
+  const holdUntil = addDays(resumeDate, stepDown.holdDays);
+  const note = annotate(entries[0]?.calculatedAmount ?? null, stepDown.holdDays);
+  const held = entries.filter(entry => entry.date < holdUntil);
+  await storage.applyScheduleChanges({
+    foodUpdates: [{ id: food.id, changes: { progressionOffsetDays: shiftedFood.progressionOffsetDays } }],
+    deleteIds: upcoming.map(entry => entry.id),
+    updates: [],
+    upserts: entries.map(entry => entry.date < holdUntil ? { ...entry, ...note } : entry),
+  }, userId);
+  return held.length;
+}
+
+async function applyRule(food: Food, rule: MissedDoseRule, missedDays: number, lastCompleted: ScheduleEntry | undefined, upcoming: ScheduleEntry[], userId: string): Promise<number> {
+  if (rule.action === 'contact_allergist') {
+    const nextDoseDate = upcoming[0].date;
+    const nextDoses = upcoming.filter(entry => entry.date === nextDoseDate);
+    await storage.updateScheduleEntries(nextDoses.map(entry => ({
+      id: entry.id,
+      changes: {
+        adjustmentNote: `${missedDays} days missed: contact your allergist before giving this dose`,
+        adjustedForMissedDays: missedDays,
+      },
+    })), userId);
+    return nextDoses.length;
+  }
+
+  return stepDownUpcoming(food, lastCompleted, upcoming, userId, (amount, holdDays) => ({
+    adjustmentNote: `${missedDays} days missed: dropped one step to ${amount} for ${holdDays} days`,
+    adjustedForMissedDays: missedDays,
+  }));
+}
+
+// Apply each food's missed-dose rules to its upcoming entries. Returns the number of entries changed.
+export async function evaluateMissedDoses(userId: string, date: string = today()): Promise<number> {
+  const foods = await storage.getFoods(userId);
+  const entries = await storage.getScheduleEntries(userId);
+  let changed = 0;
+
+  for (const food of foods) {
+    if (!food.missedDoseRules?.length) continue;
+
+    const foodEntries = entries.filter(entry => entry.foodId === food.id);
+    const { missedDays, lastCompleted } = findMissedStreak(foodEntries, date);
+    const rule = matchRule(food.missedDoseRules, missedDays);
+    if (!rule) continue;
+
+    const upcoming = foodEntries
+      .filter(entry => entry.date >= date && !entry.isCompleted)
+      .sort((a, b) => a.date.localeCompare(b.date) || a.doseSlot - b.doseSlot);
+    if (upcoming.length === 0) continue;
+
+    // Each rule is applied once per streak; a longer streak can still trigger a stricter rule
+    if (upcoming.some(entry => (entry.adjustedForMissedDays ?? 0) >= rule.minMissedDays)) continue;
+
+    changed += await applyRule(food, rule, missedDays, lastCompleted, upcoming, userId);
+  }
+
+  return changed;
+}
+
+// Run evaluateMissedDoses for every user with missed-dose rules on an active food.
+// Returns the number of entries changed.
+export async function evaluateAllMissedDoses(now = new Date()): Promise<number> {
+  const userIds = new Set((await storage.getAllActiveFoods())
+    .filter(food => food.missedDoseRules?.length)
+    .map(food => food.userId));
+
+  let changed = 0;
+  for (const userId of Array.from(userIds)) {
+    // Streaks end the day before the user's local today, the same day marking missed doses uses
+    const settings = await storage.getReminderSettings(userId);
+    changed += await evaluateMissedDoses(userId, localDate(now, settings?.timeZone ?? "UTC"));
+  }
+  return changed;
+}
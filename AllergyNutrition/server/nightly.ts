@@ -0,0 +1,11 @@
+import { storage } from "./storage";
+import { log } from "./vite";
+
+// Mark every dose still pending from before today, in each user's time zone, as missed
+export async function markMissedDoses(now = new Date()): Promise<number> {
+  const marked = await storage.markMissedEntries(now);
+  if (marked > 0) {
+    log(`marked ${marked} doses as missed`, "nightly");
+  }
+  return marked;
+}
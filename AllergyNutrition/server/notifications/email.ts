@@ -0,0 +1,28 @@
+import { mkdir, writeFile } from "fs/promises";
+import os from "os";
+import path from "path";
+import type { NotificationChannel } from "./index";
+
+const OUTBOX_DIR = process.env.NOTIFICATION_OUTBOX_DIR || path.join(os.tmpdir(), "allergy-nutrition-outbox");
+
+// Stand-in for an email provider: writes each message to the outbox folder as a .eml file
+export const fileEmailChannel: NotificationChannel = {
+  name: "email",
+  async send(message, settings) {
+    if (!settings.email) {
+      throw new Error("No email address");
+    }
+    await mkdir(OUTBOX_DIR, { recursive: true });
+    const file = path.join(OUTBOX_DIR, `${Date.now()}-${message.kind}-${message.scheduleEntryId ?? "none"}.eml`);
+    await writeFile(file, [
+      `To: ${settings.email}`,
+      `Subject: ${message.title}`,
+      `Date: ${new Date().toUTCString()}`,
+      "",
+      message.body,
+      "",
+      message.url,
+      "",
+    ].join("\n"));
+  },
+};
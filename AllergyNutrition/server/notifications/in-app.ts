@@ -0,0 +1,7 @@
+import type { NotificationChannel } from "./index";
+
+// The notification row deliver() logs is what the app polls for, so there's nothing else to send
+export const inAppChannel: NotificationChannel = {
+  name: "in_app",
+  async send() {},
+};
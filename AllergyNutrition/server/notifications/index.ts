@@ -0,0 +1,71 @@
+import {
+  type Notification,
+  type NotificationChannelName,
+  type ReminderSettings,
+} from "@shared/schema";
+import { storage } from "../storage";
+import { log } from "../vite";
+import { inAppChannel } from "./in-app";
+import { consolePushChannel } from "./push";
+import { webPushChannel } from "./web-push";
+import { fileEmailChannel } from "./email";
+import { consoleSmsChannel } from "./sms";
+
+export interface NotificationMessage {
+  kind: Notification["kind"];
+  scheduleEntryId: number | null;
+  doseTime: string | null; // The dose's calculatedTime
+  title: string;
+  body: string;
+  url: string; // Page the notification opens
+}
+
+// A way of reaching the user. send() throws when delivery fails.
+export interface NotificationChannel {
+  name: NotificationChannelName;
+  send(message: NotificationMessage, settings: ReminderSettings): Promise<void>;
+}
+
+// Stand-in providers by default so reminders can be tested offline. Web Push needs no
+// account, so it's real unless PUSH_PROVIDER=console.
+const channels: Record<NotificationChannelName, NotificationChannel> = {
+  in_app: inAppChannel,
+  push: process.env.PUSH_PROVIDER === "console" ? consolePushChannel : webPushChannel,
+  email: fileEmailChannel,
+  sms: consoleSmsChannel,
+};
+
+// Swap the provider behind a channel, e.g. a real SMS gateway
+export function registerChannel(channel: NotificationChannel) {
+  channels[channel.name] = channel;
+}
+
+// Send on each channel and log every attempt. Returns how many channels delivered.
+export async function deliver(
+  message: NotificationMessage,
+  channelNames: NotificationChannelName[],
+  settings: ReminderSettings
+): Promise<number> {
+  let sent = 0;
+  for (const name of Array.from(new Set(channelNames))) {
+    let error: string | null = null;
+    try {
+      await channels[name].send(message, settings);
+      sent++;
+    } catch (err) {
+      error = err instanceof Error ? err.message : String(err);
+      log(`${name} delivery failed: ${error}`, "notifications");
+    }
+    await storage.createNotification({
+      scheduleEntryId: message.scheduleEntryId,
+      doseTime: message.doseTime,
+      kind: message.kind,
+      channel: name,
+      title: message.title,
+      body: message.body,
+      status: error ? "failed" : "sent",
+      error,
+    }, settings.userId);
+  }
+  return sent;
+}
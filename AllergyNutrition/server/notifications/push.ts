@@ -0,0 +1,10 @@
+import type { NotificationChannel } from "./index";
+import { log } from "../vite";
+
+// Stand-in for Web Push: prints what the browser would show
+export const consolePushChannel: NotificationChannel = {
+  name: "push",
+  async send(message, settings) {
+    log(`[push → ${settings.userId}] ${message.title}: ${message.body}`, "notifications");
+  },
+};
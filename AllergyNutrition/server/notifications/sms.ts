@@ -0,0 +1,13 @@
+import type { NotificationChannel } from "./index";
+import { log } from "../vite";
+
+// Stand-in for an SMS gateway: prints the text message
+export const consoleSmsChannel: NotificationChannel = {
+  name: "sms",
+  async send(message, settings) {
+    if (!settings.phone) {
+      throw new Error("No phone number");
+    }
+    log(`[sms → ${settings.phone}] ${message.title}. ${message.body}`, "notifications");
+  },
+};
@@ -0,0 +1,75 @@
+import { createPrivateKey, generateKeyPairSync, sign, type KeyObject } from "crypto";
+import { type VapidKeys } from "@shared/schema";
+import { storage } from "../storage";
+import { log } from "../vite";
+
+const TOKEN_TTL_SECONDS = 12 * 60 * 60; // Push services reject tokens valid for over 24 hours
+
+let cached: Promise<VapidKeys> | null = null;
+
+function base64url(data: Buffer | string): string {
+  return Buffer.from(data).toString("base64url");
+}
+
+function generateVapidKeys(): VapidKeys {
+  const { publicKey, privateKey } = generateKeyPairSync("ec", { namedCurve: "prime256v1" });
+  const publicJwk = publicKey.export({ format: "jwk" });
+  const privateJwk = privateKey.export({ format: "jwk" });
+  return {
+    // Uncompressed point: 0x04 || x || y
+    publicKey: base64url(Buffer.concat([
+      Buffer.from([4]),
+      Buffer.from(publicJwk.x!, "base64url"),
+      Buffer.from(publicJwk.y!, "base64url"),
+    ])),
+    privateKey: privateJwk.d!,
+  };
+}
+
+// Keys from VAPID_PUBLIC_KEY / VAPID_PRIVATE_KEY, otherwise generated once and kept in storage
+// so browser subscriptions stay valid across restarts
+export function getVapidKeys(): Promise<VapidKeys> {
+  if (!cached) {
+    cached = (async () => {
+      if (process.env.VAPID_PUBLIC_KEY && process.env.VAPID_PRIVATE_KEY) {
+        return { publicKey: process.env.VAPID_PUBLIC_KEY, privateKey: process.env.VAPID_PRIVATE_KEY };
+      }
+      const stored = await storage.getVapidKeys();
+      if (stored) return stored;
+      log("generated VAPID keys; set VAPID_PUBLIC_KEY and VAPID_PRIVATE_KEY to pin them", "push");
+      return storage.saveVapidKeys(generateVapidKeys());
+    })();
+    cached.catch(() => { cached = null; });
+  }
+  return cached;
+}
+
+function toKeyObject(keys: VapidKeys): KeyObject {
+  const point = Buffer.from(keys.publicKey, "base64url");
+  return createPrivateKey({
+    format: "jwk",
+    key: {
+      kty: "EC",
+      crv: "P-256",
+      x: base64url(point.subarray(1, 33)),
+      y: base64url(point.subarray(33, 65)),
+      d: keys.privateKey,
+    },
+  });
+}
+
+// Authorization header value for a push to the given endpoint (RFC 8292)
+export async function vapidAuthorization(endpoint: string): Promise<string> {
+  const keys = await getVapidKeys();
+  const header = base64url(JSON.stringify({ typ: "JWT", alg: "ES256" }));
+  const claims = base64url(JSON.stringify({
+    aud: new URL(endpoint).origin,
+    exp: Math.floor(Date.now() / 1000) + TOKEN_TTL_SECONDS,
+    sub: process.env.VAPID_SUBJECT || "mailto:reminders@allergytracker.app",
+  }));
+  const signature = sign("sha256", Buffer.from(`${header}.${claims}`), {
+    key: toKeyObject(keys),
+    dsaEncoding: "ieee-p1363",
+  });
+  return `vapid t=${header}.${claims}.${base64url(signature)}, k=${keys.publicKey}`;
+}
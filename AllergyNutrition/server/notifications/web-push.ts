@@ -0,0 +1,85 @@
+import { createCipheriv, createECDH, hkdfSync, randomBytes } from "crypto";
+import { type PushSubscription } from "@shared/schema";
+import type { NotificationChannel, NotificationMessage } from "./index";
+import { vapidAuthorization } from "./vapid";
+import { storage } from "../storage";
+
+const RECORD_SIZE = 4096;
+const TTL_SECONDS = 60 * 60; // A reminder is no use once the dose is long past
+
+// Encrypt a payload for one subscription with the aes128gcm content encoding (RFC 8291)
+function encrypt(payload: string, subscription: PushSubscription): Buffer {
+  const userPublicKey = Buffer.from(subscription.p256dh, "base64url");
+  const authSecret = Buffer.from(subscription.auth, "base64url");
+
+  const ecdh = createECDH("prime256v1");
+  const serverPublicKey = ecdh.generateKeys();
+  const sharedSecret = ecdh.computeSecret(userPublicKey);
+
+  const keyInfo = Buffer.concat([Buffer.from("WebPush: info\0"), userPublicKey, serverPublicKey]);
+  const ikm = Buffer.from(hkdfSync("sha256", sharedSecret, authSecret, keyInfo, 32));
+  const salt = randomBytes(16);
+  const contentKey = Buffer.from(hkdfSync("sha256", ikm, salt, Buffer.from("Content-Encoding: aes128gcm\0"), 16));
+  const nonce = Buffer.from(hkdfSync("sha256", ikm, salt, Buffer.from("Content-Encoding: nonce\0"), 12));
+
+  const cipher = createCipheriv("aes-128-gcm", contentKey, nonce);
+  // A single record, so the padding delimiter is 0x02
+  const ciphertext = Buffer.concat([cipher.update(Buffer.concat([Buffer.from(payload), Buffer.from([2])])), cipher.final(), cipher.getAuthTag()]);
+
+  const header = Buffer.alloc(21);
+  salt.copy(header, 0);
+  header.writeUInt32BE(RECORD_SIZE, 16);
+  header.writeUInt8(serverPublicKey.length, 20);
+  return Buffer.concat([header, serverPublicKey, ciphertext]);
+}
+
+// What the service worker (client/public/sw.js) turns into a notification
+function buildPayload(message: NotificationMessage): string {
+  return JSON.stringify({
+    title: message.title,
+    body: message.body,
+    url: message.url,
+    tag: message.scheduleEntryId != null ? `dose-${message.scheduleEntryId}` : undefined,
+    scheduleEntryId: message.scheduleEntryId,
+    actions: message.scheduleEntryId != null
+      ? [{ action: "done", title: "Mark done" }, { action: "snooze", title: "Snooze 15 min" }]
+      : [],
+  });
+}
+
+// Pushes to every browser the user subscribed from. Subscriptions the push service
+// reports gone are dropped; it fails only when no browser got the message.
+export const webPushChannel: NotificationChannel = {
+  name: "push",
+  async send(message, settings) {
+    const subscriptions = await storage.getPushSubscriptions(settings.userId);
+    if (subscriptions.length === 0) {
+      throw new Error("No browsers subscribed to push");
+    }
+
+    const payload = buildPayload(message);
+    const failures: string[] = [];
+    for (const subscription of subscriptions) {
+      const response = await fetch(subscription.endpoint, {
+        method: "POST",
+        headers: {
+          "Authorization": await vapidAuthorization(subscription.endpoint),
+          "Content-Encoding": "aes128gcm",
+          "Content-Type": "application/octet-stream",
+          "TTL": String(TTL_SECONDS),
+          "Urgency": message.kind === "escalation" ? "high" : "normal",
+        },
+        body: encrypt(payload, subscription),
+      });
+      if (response.status === 404 || response.status === 410) {
+        await storage.deletePushSubscription(subscription.endpoint, settings.userId);
+        failures.push("subscription expired");
+      } else if (!response.ok) {
+        failures.push(`push service returned ${response.status}`);
+      }
+    }
+    if (failures.length === subscriptions.length) {
+      throw new Error(failures.join(", "));
+    }
+  },
+};
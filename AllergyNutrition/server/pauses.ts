@@ -0,0 +1,89 @@
+import { type Food, type Pause, type ResumePause } from "@shared/schema";
+import { pauseCovers } from "@shared/pauses";
+import { storage } from "./storage";
+import { addDays, generateScheduleEntries, today } from "./schedule";
+import { rescheduleFromDate } from "./reschedule";
+import { stepDownUpcoming } from "./missed-doses";
+import { horizonDate } from "./horizon";
+
+// Foods the pause applies to
+async function getPausedFoods(pause: Pause, userId: string): Promise<Food[]> {
+  const foods = await storage.getFoods(userId);
+  return pause.foodId === null ? foods : foods.filter(food => food.id === pause.foodId);
+}
+
+// Remove the pending doses a new pause covers. Returns the number removed.
+export async function clearPausedEntries(pause: Pause, userId: string): Promise<number> {
+  const entries = (await storage.getScheduleEntries(userId)).filter(entry =>
+    entry.status === "pending" &&
+    (pause.foodId === null || entry.foodId === pause.foodId) &&
+    pauseCovers(pause, entry.date)
+  );
+  await storage.applyScheduleChanges({ deleteIds: entries.map(entry => entry.id), updates: [], upserts: [] }, userId);
+  return entries.length;
+}
+
+// End the pause the day before `date` and move each paused food's progression on so it
+// picks up where it stopped. With "step_down" the first doses back are one step lower.
+// Returns null for a pause that has already ended, so it is only rescheduled once.
+export async function resumePause(pause: Pause, options: ResumePause, userId: string): Promise<{ pause: Pause; created: number } | null> {
+  if (pause.endDate && pause.endDate < today()) return null;
+  const date = options.date ?? today();
+  const endDate = addDays(date, -1);
+  const updated = !pause.endDate || pause.endDate > endDate
+    ? await storage.updatePause(pause.id, { endDate }, userId) ?? pause
+    : pause;
+
+  let created = 0;
+  for (const food of await getPausedFoods(pause, userId)) {
+    created += (await rescheduleFromDate(food, date, userId)).created;
+    if (options.mode !== 'step_down') continue;
+
+    const entries = (await storage.getScheduleEntries(userId))
+      .filter(entry => entry.foodId === food.id)
+      .sort((a, b) => a.date.localeCompare(b.date) || a.doseSlot - b.doseSlot);
+    const lastDose = entries.filter(entry => entry.isCompleted && entry.date < date).pop();
+    const upcoming = entries.filter(entry => !entry.isCompleted && entry.date >= date);
+    // The last dose was dated before the shift, so the step down is worked out from the food as it was
+    await stepDownUpcoming(food, lastDose, upcoming, userId, (amount, holdDays) => ({
+      adjustmentNote: `Back from a pause: stepped down to ${amount} for ${holdDays} days`,
+      adjustedForMissedDays: null,
+    }));
+  }
+
+  return { pause: updated, created };
+}
+
+// Put back the doses a deleted pause removed, from its start (or today, if it already
+// started) as though it never happened. The progression is not shifted.
+export async function restorePausedEntries(pause: Pause, userId: string): Promise<number> {
+  const fromDate = pause.startDate > today() ? pause.startDate : today();
+  if (pause.endDate && pause.endDate < fromDate) return 0;
+
+  const pauses = (await storage.getPauses(userId)).filter(other => other.id !== pause.id);
+  let created = 0;
+  for (const food of await getPausedFoods(pause, userId)) {
+    const entries = (await storage.getScheduleEntries(userId))
+      .filter(entry => entry.foodId === food.id)
+      .sort((a, b) => a.date.localeCompare(b.date) || a.doseSlot - b.doseSlot);
+    const previous = entries.filter(entry => entry.date < fromDate).pop();
+
+    // Regenerate as far ahead as the food was already scheduled, and at least to the horizon
+    const lastDate = entries.length > 0 ? entries[entries.length - 1].date : fromDate;
+    const endDate = [lastDate, horizonDate(), fromDate].sort().pop()!;
+
+    const product = food.productId ? await storage.getProduct(food.productId, userId) : undefined;
+    const newEntries = generateScheduleEntries(food, fromDate, endDate, {
+      product,
+      firstOccurrenceNumber: previous ? (previous.occurrenceNumber ?? 0) + 1 : 0,
+      pauses,
+    });
+    const upserted = await storage.applyScheduleChanges({
+      deleteIds: entries.filter(entry => entry.status === "pending" && entry.date >= fromDate).map(entry => entry.id),
+      updates: [],
+      upserts: newEntries,
+    }, userId);
+    created += upserted.filter(({ outcome }) => outcome === "created").length;
+  }
+  return created;
+}
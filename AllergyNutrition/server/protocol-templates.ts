@@ -0,0 +1,71 @@
+import { type BuiltInProtocolTemplate, type DoseStep, type ProtocolSettings } from "@shared/schema";
+
+// Every built-in protocol is dosed once a day at a consistent time
+const dailySettings: Pick<ProtocolSettings, 'frequency' | 'recurrence' | 'startTime' | 'timeProgression'> = {
+  frequency: "Every day",
+  recurrence: { unit: "day", interval: 1, dosesPerDay: 1 },
+  startTime: "08:00",
+  timeProgression: "static",
+};
+
+// Build step settings from amounts that are each held for the same number of days
+function stepSettings(amounts: string[], daysPerStep: number): ProtocolSettings {
+  const doseSteps: DoseStep[] = amounts.map(amount => ({ amount, days: daysPerStep }));
+  return {
+    ...dailySettings,
+    progressionType: "steps",
+    doseSteps,
+    startingAmount: amounts[0],
+    targetAmount: amounts[amounts.length - 1],
+    progressionDuration: doseSteps.reduce((total, step) => total + step.days, 0),
+  };
+}
+
+const CLINICIAN_NOTE = "Only use under the supervision of your allergist and adjust to their instructions.";
+
+export const builtInProtocolTemplates: BuiltInProtocolTemplate[] = [
+  {
+    key: "peanut-oit-palisade",
+    name: "Peanut OIT – 11-level up-dosing to 300 mg",
+    allergen: "peanut",
+    description: `Two-week up-dosing levels from 3 mg to 300 mg peanut protein, following the PALISADE trial schedule. ${CLINICIAN_NOTE}`,
+    settings: stepSettings(
+      ["3 mg", "6 mg", "12 mg", "20 mg", "40 mg", "80 mg", "120 mg", "160 mg", "200 mg", "240 mg", "300 mg"],
+      14
+    ),
+  },
+  {
+    key: "egg-oit-biweekly",
+    name: "Egg OIT – biweekly buildup to 1,000 mg",
+    allergen: "egg",
+    description: `Two-week steps from 3 mg to 1,000 mg egg white protein, similar to published egg OIT buildup phases. ${CLINICIAN_NOTE}`,
+    settings: stepSettings(
+      ["3 mg", "6 mg", "12 mg", "25 mg", "50 mg", "100 mg", "200 mg", "300 mg", "500 mg", "750 mg", "1000 mg"],
+      14
+    ),
+  },
+  {
+    key: "milk-oit-biweekly",
+    name: "Milk OIT – biweekly buildup to 1,000 mg",
+    allergen: "milk",
+    description: `Two-week steps from 3 mg to 1,000 mg cow's milk protein (about 30 ml of milk), similar to published milk OIT buildup phases. ${CLINICIAN_NOTE}`,
+    settings: stepSettings(
+      ["3 mg", "6 mg", "12 mg", "25 mg", "50 mg", "100 mg", "200 mg", "300 mg", "500 mg", "1000 mg"],
+      14
+    ),
+  },
+  {
+    key: "baked-milk-muffin",
+    name: "Baked milk – muffin introduction",
+    allergen: "milk",
+    description: `Weekly steps up to a whole baked-milk muffin, the first rung of a milk ladder. ${CLINICIAN_NOTE}`,
+    settings: stepSettings(["0.125 muffin", "0.25 muffin", "0.5 muffin", "1 muffin"], 7),
+  },
+  {
+    key: "baked-egg-cake",
+    name: "Baked egg – cake introduction",
+    allergen: "egg",
+    description: `Weekly steps up to a full serving of well-baked egg cake, the first rung of an egg ladder. ${CLINICIAN_NOTE}`,
+    settings: stepSettings(["0.125 slice", "0.25 slice", "0.5 slice", "1 slice"], 7),
+  },
+];
@@ -0,0 +1,61 @@
+import { type InsertScheduleEntry, type Reaction } from "@shared/schema";
+import { defaultReactionActions } from "@shared/reaction-grading";
+import { withStatus } from "@shared/entry-status";
+import { storage } from "./storage";
+import { stepDownUpcoming } from "./missed-doses";
+
+const SEVERITY_LABELS = { mild: "Mild", moderate: "Moderate", severe: "Severe" } as const;
+
+// Apply the follow-up the food configures for a saved reaction's grade to its upcoming
+// doses, and record it on the reaction. Reactions not tied to a food are returned as is.
+export async function applyReactionFollowUp(reaction: Reaction, userId: string): Promise<Reaction> {
+  if (!reaction.foodId) return reaction;
+  const food = await storage.getFood(reaction.foodId, userId);
+  if (!food) return reaction;
+
+  const action = (food.reactionActions ?? defaultReactionActions)[reaction.severity];
+  const recorded = await storage.updateReaction(reaction.id, { followUpAction: action }, userId) ?? reaction;
+  const entries = (await storage.getScheduleEntries(userId))
+    .filter(entry => entry.foodId === food.id)
+    .sort((a, b) => a.date.localeCompare(b.date) || a.doseSlot - b.doseSlot);
+
+  // The dose that caused it: the linked entry, or the last dose taken by the reaction date
+  const reactedDose = reaction.scheduleEntryId
+    ? entries.find(entry => entry.id === reaction.scheduleEntryId)
+    : entries.filter(entry => entry.isCompleted && entry.date <= reaction.date).pop();
+
+  const upcoming = entries.filter(entry =>
+    entry.status === 'pending' && entry.date >= reaction.date && entry.id !== reactedDose?.id
+  );
+  if (upcoming.length === 0) return recorded;
+
+  const nextDoses = upcoming.filter(entry => entry.date === upcoming[0].date);
+  const prefix = `${SEVERITY_LABELS[reaction.severity]} reaction on ${reaction.date}`;
+
+  if (action === 'step_down') {
+    await stepDownUpcoming(food, reactedDose, upcoming, userId, (amount, holdDays) => ({
+      adjustmentNote: `${prefix}: stepped down to ${amount} for ${holdDays} days`,
+      adjustedForMissedDays: null,
+    }));
+    return recorded;
+  }
+
+  let changes: Partial<InsertScheduleEntry>;
+  if (action === 'repeat') {
+    changes = {
+      ...(reactedDose && {
+        calculatedAmount: reactedDose.calculatedAmount,
+        proteinMg: reactedDose.proteinMg,
+        stepNumber: reactedDose.stepNumber,
+      }),
+      adjustmentNote: `${prefix}: repeat ${reactedDose?.calculatedAmount ?? 'the same dose'} instead of increasing`,
+    };
+  } else if (action === 'hold') {
+    // Skipped rather than just noted, so the dose drops out of reminders
+    changes = withStatus({ status: 'skipped', skipReason: prefix, adjustmentNote: `${prefix}: skip this dose` });
+  } else {
+    changes = { adjustmentNote: `${prefix}: call your doctor before giving this dose` };
+  }
+  await storage.updateScheduleEntries(nextDoses.map(entry => ({ id: entry.id, changes })), userId);
+  return recorded;
+}
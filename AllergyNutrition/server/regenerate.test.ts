@@ -0,0 +1,100 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { insertFoodSchema, type InsertFood } from "@shared/schema";
+import { storage } from "./storage";
+import { generateScheduleEntries } from "./schedule";
+import { affectsSchedule, applyScheduleDiff, diffFoodSchedule } from "./regenerate";
+
+const steps: InsertFood = insertFoodSchema.parse({
+  name: "Peanut",
+  instructions: "",
+  color: "blue",
+  frequency: "Every day",
+  startDate: "2026-10-01",
+  progressionType: "steps",
+  doseSteps: [{ amount: "1 mg", days: 7 }, { amount: "3 mg", days: 7 }, { amount: "6 mg", days: 7 }],
+});
+
+let userCount = 0;
+
+// A food scheduled from its start through the end of October, taken up to `takenUntil`
+async function scheduledFood(takenUntil: string) {
+  const userId = `regenerate-${++userCount}`;
+  const food = await storage.createFood(steps, userId);
+  await storage.upsertScheduleEntries(generateScheduleEntries(food, food.startDate, "2026-10-31"), userId);
+  for (const entry of await storage.getScheduleEntries(userId)) {
+    if (entry.date <= takenUntil) {
+      await storage.updateScheduleEntry(entry.id, { status: "completed", isCompleted: true }, userId);
+    }
+  }
+  return { userId, food };
+}
+
+beforeEach(() => {
+  vi.useFakeTimers({ toFake: ["Date"] });
+  vi.setSystemTime(new Date("2026-10-10T12:00:00.000Z"));
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe("affectsSchedule", async () => {
+  const food = await storage.createFood(steps, "regenerate-fields");
+
+  it("is true when a field the doses depend on changes", () => {
+    expect(affectsSchedule(food, { startTime: "08:00" })).toBe(true);
+  });
+
+  it("ignores unchanged values and fields the doses don't use", () => {
+    expect(affectsSchedule(food, { frequency: "Every day", name: "Peanut butter" })).toBe(false);
+  });
+});
+
+describe("diffFoodSchedule", () => {
+  it("changes only the pending doses from today on", async () => {
+    const { userId, food } = await scheduledFood("2026-10-08");
+    const edited = { ...food, doseSteps: [{ amount: "1 mg", days: 7 }, { amount: "2 mg", days: 7 }, { amount: "6 mg", days: 7 }] };
+
+    const diff = await diffFoodSchedule(food, edited, userId);
+    expect(diff.fromDate).toBe("2026-10-10");
+    expect(diff.changed.map(change => change.date)).toEqual(["2026-10-10", "2026-10-11", "2026-10-12", "2026-10-13", "2026-10-14"]);
+    expect(diff.changed[0].after.calculatedAmount).toBe("2 mg");
+    expect(diff.removed).toHaveLength(0);
+  });
+
+  it("keeps adjusted doses as they are", async () => {
+    const { userId, food } = await scheduledFood("2026-10-08");
+    const next = (await storage.getScheduleEntries(userId)).find(entry => entry.date === "2026-10-10")!;
+    await storage.updateScheduleEntry(next.id, { adjustmentNote: "Call your doctor before giving this dose" }, userId);
+
+    const diff = await diffFoodSchedule(food, { ...food, doseSteps: [{ amount: "2 mg", days: 21 }] }, userId);
+    expect(diff.changed.map(change => change.id)).not.toContain(next.id);
+    expect(diff.removed.map(entry => entry.id)).not.toContain(next.id);
+  });
+
+  it("adds and removes doses when the frequency changes", async () => {
+    const { userId, food } = await scheduledFood("2026-10-09");
+    const edited = { ...food, frequency: "Every 2 days", recurrence: { unit: "day" as const, interval: 2, dosesPerDay: 1 } };
+
+    const diff = await diffFoodSchedule(food, edited, userId);
+    expect(diff.removed.some(entry => entry.date === "2026-10-10")).toBe(true);
+    expect(diff.added.some(entry => entry.date === "2026-10-10")).toBe(false);
+  });
+});
+
+describe("applyScheduleDiff", () => {
+  it("updates changed doses in place and leaves history alone", async () => {
+    const { userId, food } = await scheduledFood("2026-10-08");
+    const before = await storage.getScheduleEntries(userId);
+    const edited = await storage.updateFood(food.id, { doseSteps: [{ amount: "1 mg", days: 7 }, { amount: "2 mg", days: 7 }] }, userId);
+
+    await applyScheduleDiff(await diffFoodSchedule(food, edited!, userId), userId);
+    const after = await storage.getScheduleEntries(userId);
+
+    const changedDose = after.find(entry => entry.date === "2026-10-10")!;
+    expect(changedDose.id).toBe(before.find(entry => entry.date === "2026-10-10")!.id);
+    expect(changedDose.calculatedAmount).toBe("2 mg");
+    expect(after.find(entry => entry.date === "2026-10-08")).toMatchObject({ status: "completed", calculatedAmount: "3 mg" });
+    expect(await diffFoodSchedule(edited!, edited!, userId)).toMatchObject({ added: [], removed: [], changed: [] });
+  });
+});
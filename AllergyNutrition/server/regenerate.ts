@@ -0,0 +1,94 @@
+import { type Food, type InsertFood, type InsertScheduleEntry, type ScheduleDiff, type ScheduleEntry } from "@shared/schema";
+import { storage } from "./storage";
+import { generateScheduleEntries, today } from "./schedule";
+import { horizonDate, isScheduled } from "./horizon";
+
+// Food fields the generated entries depend on
+const SCHEDULE_FIELDS = [
+  "frequency", "recurrence", "doseSlots", "startDate", "productId",
+  "startingAmount", "targetAmount", "progressionType", "progressionDuration", "doseSteps",
+  "startTime", "endTime", "timeProgression", "timeProgressionAmount",
+] as const;
+
+export function affectsSchedule(existing: Food, update: Partial<InsertFood>): boolean {
+  return SCHEDULE_FIELDS.some(field =>
+    update[field] !== undefined && JSON.stringify(update[field] ?? null) !== JSON.stringify(existing[field] ?? null)
+  );
+}
+
+const slotKey = (entry: { date: string; doseSlot?: number | null }) => `${entry.date}:${entry.doseSlot ?? 0}`;
+
+// Compare the food's pending entries from today on with what `edited` would generate
+export async function diffFoodSchedule(existing: Food, edited: Food, userId: string): Promise<ScheduleDiff> {
+  const fromDate = today();
+  const entries = (await storage.getScheduleEntries(userId))
+    .filter(entry => entry.foodId === existing.id)
+    .sort((a, b) => a.date.localeCompare(b.date) || a.doseSlot - b.doseSlot);
+  // Doses already done, skipped or missed keep their slot, and so do adjusted ones: their
+  // notes tell the caregiver to step down or call the doctor, which an edit doesn't undo
+  const isSettled = (entry: ScheduleEntry) => entry.status !== "pending" || !!entry.adjustmentNote;
+  const upcoming = entries.filter(entry => entry.date >= fromDate && !isSettled(entry));
+  const adjusted = entries.filter(entry => entry.date >= fromDate && entry.status === "pending" && entry.adjustmentNote).length;
+
+  const ladders = await storage.getLadders(userId);
+  if (!isScheduled(edited, ladders)) {
+    return { fromDate, added: [], removed: [], changed: [], unchanged: upcoming.length + adjusted };
+  }
+
+  const settled = new Set(entries.filter(entry => entry.date >= fromDate && isSettled(entry)).map(slotKey));
+  const previous = entries.filter(entry => entry.date < fromDate).pop();
+  const lastDate = entries.length > 0 ? entries[entries.length - 1].date : fromDate;
+  const endDate = [lastDate, horizonDate()].sort().pop()!;
+
+  const product = edited.productId ? await storage.getProduct(edited.productId, userId) : undefined;
+  const pauses = await storage.getPauses(userId);
+  const regenerated = generateScheduleEntries(edited, fromDate, endDate, {
+    product,
+    pauses,
+    firstOccurrenceNumber: previous ? (previous.occurrenceNumber ?? 0) + 1 : 0,
+  }).filter(entry => !settled.has(slotKey(entry)));
+
+  const byKey = new Map<string, InsertScheduleEntry>(regenerated.map(entry => [slotKey(entry), entry]));
+  const diff: ScheduleDiff = { fromDate, added: [], removed: [], changed: [], unchanged: adjusted };
+
+  for (const entry of upcoming) {
+    const next = byKey.get(slotKey(entry));
+    byKey.delete(slotKey(entry));
+    if (!next) {
+      diff.removed.push(entry);
+    } else if (
+      next.calculatedAmount !== entry.calculatedAmount ||
+      next.calculatedTime !== entry.calculatedTime ||
+      (next.proteinMg ?? null) !== entry.proteinMg ||
+      (next.stepNumber ?? null) !== entry.stepNumber
+    ) {
+      diff.changed.push({
+        id: entry.id,
+        date: entry.date,
+        doseSlot: entry.doseSlot,
+        before: { calculatedAmount: entry.calculatedAmount, calculatedTime: entry.calculatedTime },
+        after: {
+          calculatedAmount: next.calculatedAmount,
+          calculatedTime: next.calculatedTime,
+          proteinMg: next.proteinMg,
+          stepNumber: next.stepNumber,
+          occurrenceNumber: next.occurrenceNumber,
+        },
+      });
+    } else {
+      diff.unchanged++;
+    }
+  }
+  diff.added = Array.from(byKey.values());
+  return diff;
+}
+
+// Apply a diff from diffFoodSchedule in one transaction. Changed entries keep their id,
+// so reactions and reminders that point at them stay linked.
+export async function applyScheduleDiff(diff: ScheduleDiff, userId: string): Promise<void> {
+  await storage.applyScheduleChanges({
+    deleteIds: diff.removed.map(entry => entry.id),
+    updates: diff.changed.map(change => ({ id: change.id, changes: change.after })),
+    upserts: diff.added,
+  }, userId);
+}
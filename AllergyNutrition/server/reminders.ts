@@ -0,0 +1,99 @@
+import { type Food, type ReminderSettings, type ScheduleEntry } from "@shared/schema";
+import { storage } from "./storage";
+import { localDate, zoneOffsetMinutes } from "./time-zone";
+import { deliver, type NotificationMessage } from "./notifications";
+import { log } from "./vite";
+
+const MINUTE_MS = 1000 * 60;
+const DAY_MS = MINUTE_MS * 60 * 24;
+// A reminder that couldn't go out within this long of its time (e.g. the server was down) is dropped
+const SEND_WINDOW_MINUTES = 60;
+
+// When a dose's YYYY-MM-DD date and HH:MM time happen in the user's zone
+export function doseInstant(date: string, time: string, timeZone: string): Date {
+  const [hours, minutes] = time.split(':').map(Number);
+  const asUtc = new Date(`${date}T00:00:00Z`).getTime() + (hours * 60 + minutes) * MINUTE_MS;
+  // Correct by the offset at the guess, then again in case that crossed a DST change
+  let instant = asUtc - zoneOffsetMinutes(new Date(asUtc), timeZone) * MINUTE_MS;
+  instant = asUtc - zoneOffsetMinutes(new Date(instant), timeZone) * MINUTE_MS;
+  return new Date(instant);
+}
+
+function addDays(date: string, days: number): string {
+  return new Date(new Date(date + 'T00:00:00Z').getTime() + days * DAY_MS).toISOString().split('T')[0];
+}
+
+function isDue(now: Date, at: number): boolean {
+  return now.getTime() >= at && now.getTime() < at + SEND_WINDOW_MINUTES * MINUTE_MS;
+}
+
+function buildMessage(kind: NotificationMessage["kind"], entry: ScheduleEntry, food: Food | undefined): NotificationMessage {
+  const name = food?.name ?? "Food";
+  const amount = entry.calculatedAmount ? `${entry.calculatedAmount} ` : "";
+  return kind === "reminder"
+    ? {
+        kind,
+        scheduleEntryId: entry.id,
+        doseTime: entry.calculatedTime,
+        title: `Time for ${name}`,
+        body: `Give ${amount}at ${entry.calculatedTime}.`,
+        url: "/",
+      }
+    : {
+        kind,
+        scheduleEntryId: entry.id,
+        doseTime: entry.calculatedTime,
+        title: `${name} not marked done`,
+        body: `The ${amount}dose was due at ${entry.calculatedTime}. Mark it done or skip it in the app.`,
+        url: "/",
+      };
+}
+
+// Send the reminders and escalations due for one user. Returns how many went out.
+async function remindUser(settings: ReminderSettings, now: Date): Promise<number> {
+  // Lead times can reach back across midnight, and escalations forward across it
+  const today = localDate(now, settings.timeZone);
+  const entries = (await storage.getScheduleEntriesForDateRange(settings.userId, addDays(today, -1), addDays(today, 1)))
+    .filter(entry => entry.status === "pending" && entry.calculatedTime);
+  if (entries.length === 0) return 0;
+
+  const foods = await storage.getFoods(settings.userId);
+  let sent = 0;
+  for (const entry of entries) {
+    const due = doseInstant(entry.date, entry.calculatedTime!, settings.timeZone).getTime();
+    const reminderAt = due - settings.leadMinutes * MINUTE_MS;
+    const escalateAt = settings.escalateAfterMinutes != null ? due + settings.escalateAfterMinutes * MINUTE_MS : null;
+    // Snoozing moves the dose time, which may already be inside the lead time
+    if (!isDue(now, Math.min(reminderAt, due)) && (escalateAt == null || !isDue(now, escalateAt))) continue;
+
+    const history = await storage.getNotificationsForEntry(entry.id);
+    const wasSnoozed = history.some(n => n.kind === "reminder" && n.doseTime !== entry.calculatedTime);
+    const kinds: NotificationMessage["kind"][] = [];
+    if (isDue(now, wasSnoozed ? due : reminderAt)) kinds.push("reminder");
+    if (escalateAt != null && isDue(now, escalateAt)) kinds.push("escalation");
+
+    const food = foods.find(f => f.id === entry.foodId);
+    for (const kind of kinds.filter(kind => !history.some(n => n.kind === kind && n.doseTime === entry.calculatedTime))) {
+      const channels = kind === "escalation" ? settings.escalationChannels ?? settings.channels : settings.channels;
+      await deliver(buildMessage(kind, entry, food), channels, settings);
+      sent++;
+    }
+  }
+  return sent;
+}
+
+// One scheduler tick across every user with reminders turned on
+export async function runReminders(now = new Date()): Promise<number> {
+  let sent = 0;
+  for (const settings of await storage.getAllReminderSettings()) {
+    try {
+      sent += await remindUser(settings, now);
+    } catch (error) {
+      log(`reminders for ${settings.userId} failed: ${String(error)}`, "reminders");
+    }
+  }
+  if (sent > 0) {
+    log(`sent ${sent} reminders`, "reminders");
+  }
+  return sent;
+}
@@ -0,0 +1,58 @@
+import { type Food, type ScheduleEntry } from "@shared/schema";
+import { getRecurrence, occursOn } from "@shared/recurrence";
+import { storage } from "./storage";
+import { addDays, daysBetween, generateScheduleEntries } from "./schedule";
+import { horizonDate } from "./horizon";
+
+// The dosing day after the last completed dose, or the food's first dosing day.
+// Used when the doses in between were removed, e.g. by a pause.
+function nextDueDate(food: Food, lastCompleted?: ScheduleEntry): string {
+  const recurrence = getRecurrence(food);
+  let date = lastCompleted ? addDays(lastCompleted.date, 1) : food.startDate;
+  while (!occursOn(recurrence, food.startDate, date)) {
+    date = addDays(date, 1);
+  }
+  return date;
+}
+
+// Push the rest of a food's progression forward so it picks up on `date` at the first
+// dose that wasn't taken. Dose history is kept; pending entries from that dose on are
+// replaced by entries from `date`, numbered on from the last completed dose. The shift
+// and the new entries are saved together.
+export async function rescheduleFromDate(food: Food, date: string, userId: string): Promise<{ shiftedDays: number; created: number }> {
+  const entries = (await storage.getScheduleEntries(userId))
+    .filter(entry => entry.foodId === food.id)
+    .sort((a, b) => a.date.localeCompare(b.date) || a.doseSlot - b.doseSlot);
+
+  const completed = entries.filter(entry => entry.isCompleted && entry.date < date);
+  const lastCompleted = completed[completed.length - 1];
+  const firstMissed = entries.find(entry =>
+    !entry.isCompleted && entry.date < date && (!lastCompleted || entry.date > lastCompleted.date)
+  );
+
+  const shiftedDays = Math.max(daysBetween(firstMissed?.date ?? nextDueDate(food, lastCompleted), date), 0);
+  const firstOccurrenceNumber = lastCompleted
+    ? (lastCompleted.occurrenceNumber ?? 0) + 1
+    : firstMissed?.occurrenceNumber ?? 0;
+
+  // Regenerate as far ahead as the food was already scheduled, and at least to the horizon
+  const lastDate = entries.length > 0 ? entries[entries.length - 1].date : date;
+  const endDate = [lastDate, horizonDate(), date].sort().pop()!;
+
+  const shiftedFood = { ...food, progressionOffsetDays: food.progressionOffsetDays + shiftedDays };
+  const product = food.productId ? await storage.getProduct(food.productId, userId) : undefined;
+  const pauses = await storage.getPauses(userId);
+  const newEntries = generateScheduleEntries(shiftedFood, date, endDate, { product, firstOccurrenceNumber, pauses });
+
+  // Doses still pending in between were never due once the progression moves, so they
+  // don't count as missed. Ones already marked missed or skipped stay as history.
+  const fromDate = firstMissed?.date ?? date;
+  const upserted = await storage.applyScheduleChanges({
+    foodUpdates: [{ id: food.id, changes: { progressionOffsetDays: shiftedFood.progressionOffsetDays } }],
+    deleteIds: entries.filter(entry => entry.status === "pending" && entry.date >= fromDate).map(entry => entry.id),
+    updates: [],
+    upserts: newEntries,
+  }, userId);
+
+  return { shiftedDays, created: upserted.filter(({ outcome }) => outcome === "created").length };
+}
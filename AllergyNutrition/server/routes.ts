@@ -1,219 +1,23 @@
 import type { Express } from "express";
 import { createServer, type Server } from "http";
 import { storage } from "./storage";
-import { insertFoodSchema, insertScheduleEntrySchema, type Food } from "@shared/schema";
-import { setupAuth, isAuthenticated, getUserId } from "./auth/index";
-
-// Utility functions for dose and time calculations
-function calculateProgressiveAmount(
-  startingAmount: string | null,
-  targetAmount: string | null,
-  progressionType: string | null,
-  progressionDuration: number | null,
-  occurrenceNumber: number,
-  totalOccurrences: number
-): string | null {
-  if (!startingAmount || !targetAmount || !progressionType || !progressionDuration) {
-    return startingAmount || null;
-  }
-
-  if (progressionType === 'static') {
-    return startingAmount;
-  }
-
-  // Parse amounts (assuming format like "1 tablespoon", "0.5 teaspoon", etc.)
-  const parseAmount = (amount: string) => {
-    const match = amount.match(/^([\d.]+)/);
-    return match ? parseFloat(match[1]) : 1;
-  };
-
-  const startValue = parseAmount(startingAmount);
-  const targetValue = parseAmount(targetAmount);
-  
-  // Calculate progression based on occurrence number
-  const progress = Math.min(occurrenceNumber / Math.max(totalOccurrences - 1, 1), 1);
-  
-  let currentValue: number;
-  if (progressionType === 'buildup') {
-    currentValue = startValue + (targetValue - startValue) * progress;
-  } else if (progressionType === 'reduction') {
-    currentValue = startValue - (startValue - targetValue) * progress;
-  } else if (progressionType === 'custom') {
-    // Custom progression with more complex patterns
-    // Example: Plateau at 50% for middle third, then continue buildup
-    if (progress < 0.33) {
-      // First third: linear buildup to 50% target
-      currentValue = startValue + (targetValue - startValue) * 0.5 * (progress / 0.33);
-    } else if (progress < 0.67) {
-      // Middle third: plateau at 50%
-      currentValue = startValue + (targetValue - startValue) * 0.5;
-    } else {
-      // Final third: complete buildup to target
-      const finalProgress = (progress - 0.67) / 0.33;
-      currentValue = startValue + (targetValue - startValue) * (0.5 + 0.5 * finalProgress);
-    }
-  } else {
-    currentValue = startValue;
-  }
-
-  // Replace the numeric part while keeping the unit
-  return startingAmount.replace(/^[\d.]+/, currentValue.toFixed(2));
-}
+import { insertFoodSchema, insertScheduleEntrySchema, insertProtocolTemplateSchema, insertLadderSchema, insertProductSchema, insertReactionSchema, insertPauseSchema, resumePauseSchema, insertReminderSettingsSchema, pushSubscriptionSchema, type Food, type Reaction } from "@shared/schema";
+import { recurrenceFromFrequency } from "@shared/recurrence";
+import { gradeReaction } from "@shared/reaction-grading";
+import { withStatus } from "@shared/entry-status";
+import { validateTimeWindow } from "@shared/time-window";
+import { setupAuth, isAuthenticated, isAdmin, getUserId } from "./auth/index";
+import { generateScheduleEntries, previewSchedule } from "./schedule";
+import { builtInProtocolTemplates } from "./protocol-templates";
+import { createLadder, advanceLadder, getLaddersWithProgress, deleteLadder } from "./ladders";
+import { rescheduleFromDate } from "./reschedule";
+import { applyReactionFollowUp } from "./reaction-actions";
+import { clearPausedEntries, resumePause, restorePausedEntries } from "./pauses";
+import { getVapidKeys } from "./notifications/vapid";
+import { ensureScheduledThrough, horizonDate } from "./horizon";
+import { affectsSchedule, diffFoodSchedule, applyScheduleDiff } from "./regenerate";
 
-function calculateProgressiveTime(
-  startTime: string | null,
-  timeProgression: string | null,
-  timeProgressionAmount: number | null,
-  occurrenceNumber: number
-): string | null {
-  if (!startTime || !timeProgression || !timeProgressionAmount || timeProgression === 'static') {
-    return startTime;
-  }
-
-  // Parse time (HH:MM format)
-  const [hours, minutes] = startTime.split(':').map(Number);
-  let totalMinutes = hours * 60 + minutes;
-
-  // Apply progression
-  if (timeProgression === 'later') {
-    totalMinutes += timeProgressionAmount * occurrenceNumber;
-  } else if (timeProgression === 'earlier') {
-    totalMinutes -= timeProgressionAmount * occurrenceNumber;
-  }
-
-  // Wrap around 24 hour format
-  totalMinutes = ((totalMinutes % (24 * 60)) + (24 * 60)) % (24 * 60);
-
-  const newHours = Math.floor(totalMinutes / 60);
-  const newMinutes = totalMinutes % 60;
-
-  return `${newHours.toString().padStart(2, '0')}:${newMinutes.toString().padStart(2, '0')}`;
-}
 
-// Schedule generation utility
-function generateScheduleEntries(food: Food, startDateStr: string, endDateStr: string) {
-  const entries = [];
-  const startDate = new Date(startDateStr);
-  const endDate = new Date(endDateStr);
-  
-  // Normalize frequency
-  const frequency = food.frequency.toLowerCase();
-  
-  let currentDate = new Date(startDate);
-  let occurrenceNumber = 0;
-  
-  // First pass: determine total occurrences for progression calculations
-  const tempEntries = [];
-  let tempDate = new Date(startDate);
-  while (tempDate <= endDate) {
-    let shouldInclude = false;
-    
-    if (frequency === 'daily' || frequency === 'every day') {
-      shouldInclude = true;
-    } else if (frequency === 'weekly' || frequency === 'once a week') {
-      shouldInclude = tempDate.getDay() === startDate.getDay();
-    } else if (frequency.includes('times per week') || frequency.includes('x week') || frequency.includes('times a week')) {
-      const timesMatch = frequency.match(/(\d+)/);
-      const times = timesMatch ? parseInt(timesMatch[1]) : 3;
-      
-      if (times === 7) {
-        shouldInclude = true;
-      } else if (times === 6) {
-        shouldInclude = tempDate.getDay() !== 0;
-      } else if (times === 5) {
-        shouldInclude = [1, 2, 3, 4, 5].includes(tempDate.getDay());
-      } else if (times === 4) {
-        shouldInclude = [1, 2, 4, 5].includes(tempDate.getDay());
-      } else if (times === 3) {
-        shouldInclude = [1, 3, 5].includes(tempDate.getDay());
-      } else if (times === 2) {
-        shouldInclude = [2, 5].includes(tempDate.getDay());
-      } else if (times === 1) {
-        shouldInclude = tempDate.getDay() === startDate.getDay();
-      }
-    } else if (frequency.includes('every 2 days') || frequency.includes('every other day')) {
-      const daysDiff = Math.floor((tempDate.getTime() - startDate.getTime()) / (1000 * 60 * 60 * 24));
-      shouldInclude = daysDiff % 2 === 0;
-    } else {
-      shouldInclude = true;
-    }
-    
-    if (shouldInclude) {
-      tempEntries.push(tempDate.toISOString().split('T')[0]);
-    }
-    
-    tempDate.setDate(tempDate.getDate() + 1);
-  }
-  
-  const totalOccurrences = tempEntries.length;
-  
-  // Second pass: generate actual entries with calculated values
-  while (currentDate <= endDate) {
-    let shouldInclude = false;
-    
-    if (frequency === 'daily' || frequency === 'every day') {
-      shouldInclude = true;
-    } else if (frequency === 'weekly' || frequency === 'once a week') {
-      shouldInclude = currentDate.getDay() === startDate.getDay();
-    } else if (frequency.includes('times per week') || frequency.includes('x week') || frequency.includes('times a week')) {
-      const timesMatch = frequency.match(/(\d+)/);
-      const times = timesMatch ? parseInt(timesMatch[1]) : 3;
-      
-      if (times === 7) {
-        shouldInclude = true;
-      } else if (times === 6) {
-        shouldInclude = currentDate.getDay() !== 0;
-      } else if (times === 5) {
-        shouldInclude = [1, 2, 3, 4, 5].includes(currentDate.getDay());
-      } else if (times === 4) {
-        shouldInclude = [1, 2, 4, 5].includes(currentDate.getDay());
-      } else if (times === 3) {
-        shouldInclude = [1, 3, 5].includes(currentDate.getDay());
-      } else if (times === 2) {
-        shouldInclude = [2, 5].includes(currentDate.getDay());
-      } else if (times === 1) {
-        shouldInclude = currentDate.getDay() === startDate.getDay();
-      }
-    } else if (frequency.includes('every 2 days') || frequency.includes('every other day')) {
-      const daysDiff = Math.floor((currentDate.getTime() - startDate.getTime()) / (1000 * 60 * 60 * 24));
-      shouldInclude = daysDiff % 2 === 0;
-    } else {
-      shouldInclude = true;
-    }
-    
-    if (shouldInclude) {
-      const calculatedAmount = calculateProgressiveAmount(
-        food.startingAmount,
-        food.targetAmount,
-        food.progressionType,
-        food.progressionDuration,
-        occurrenceNumber,
-        totalOccurrences
-      );
-      
-      const calculatedTime = calculateProgressiveTime(
-        food.startTime,
-        food.timeProgression,
-        food.timeProgressionAmount,
-        occurrenceNumber
-      );
-      
-      entries.push({
-        foodId: food.id,
-        date: currentDate.toISOString().split('T')[0],
-        calculatedAmount,
-        calculatedTime,
-        occurrenceNumber,
-      });
-      
-      occurrenceNumber++;
-    }
-    
-    currentDate.setDate(currentDate.getDate() + 1);
-  }
-  
-  return entries;
-}
 export async function registerRoutes(app: Express): Promise<Server> {
   // Setup authentication - auth routes are defined in auth.ts
   setupAuth(app);
@@ -233,23 +37,72 @@ export async function registerRoutes(app: Express): Promise<Server> {
     try {
       const userId = getUserId(req);
       const validatedData = insertFoodSchema.parse(req.body);
-      const food = await storage.createFood(validatedData, userId);
+      const windowError = validateTimeWindow(validatedData);
+      if (windowError) {
+        return res.status(400).json({ message: windowError.message });
+      }
+
+      const food = await storage.createFood({
+        ...validatedData,
+        recurrence: validatedData.recurrence ?? recurrenceFromFrequency(validatedData.frequency),
+      }, userId);
       res.status(201).json(food);
     } catch (error) {
       res.status(400).json({ message: "Invalid food data" });
     }
   });
 
+  // Dry run: the entries a food would get, without saving anything
+  app.post("/api/foods/preview-schedule", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = getUserId(req);
+      const validatedData = insertFoodSchema.parse(req.body);
+      const windowError = validateTimeWindow(validatedData);
+      if (windowError) {
+        return res.status(400).json({ message: windowError.message });
+      }
+
+      const product = validatedData.productId ? await storage.getProduct(validatedData.productId, userId) : undefined;
+      // Only whole-account pauses can cover a food that doesn't exist yet
+      const pauses = (await storage.getPauses(userId)).filter(pause => pause.foodId === null);
+      res.json(previewSchedule(validatedData, { product, pauses }));
+    } catch (error) {
+      res.status(400).json({ message: "Invalid food data" });
+    }
+  });
+
   app.patch("/api/foods/:id", isAuthenticated, async (req: any, res) => {
     try {
       const userId = getUserId(req);
       const id = parseInt(req.params.id);
       const partialData = insertFoodSchema.partial().parse(req.body);
+      if (partialData.frequency && partialData.recurrence === undefined) {
+        partialData.recurrence = recurrenceFromFrequency(partialData.frequency);
+      }
+
+      const existing = await storage.getFood(id, userId);
+      if (!existing) {
+        return res.status(404).json({ message: "Food not found" });
+      }
+      const windowError = validateTimeWindow({ ...existing, ...partialData });
+      if (windowError) {
+        return res.status(400).json({ message: windowError.message });
+      }
+
       const food = await storage.updateFood(id, partialData, userId);
-      
       if (!food) {
         return res.status(404).json({ message: "Food not found" });
       }
+
+      // Rebuild future doses from the new settings; history is left alone
+      if (affectsSchedule(existing, partialData)) {
+        const diff = await diffFoodSchedule(existing, food, userId);
+        await applyScheduleDiff(diff, userId);
+        return res.json({
+          ...food,
+          schedule: { added: diff.added.length, removed: diff.removed.length, changed: diff.changed.length },
+        });
+      }
       
       res.json(food);
     } catch (error) {
@@ -257,6 +110,36 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // What saving an edit would do to the food's upcoming doses, without saving it;
+  // null when the edit doesn't touch anything the schedule depends on
+  app.post("/api/foods/:id/schedule-diff", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = getUserId(req);
+      const id = parseInt(req.params.id);
+      const partialData = insertFoodSchema.partial().parse(req.body);
+      if (partialData.frequency && partialData.recurrence === undefined) {
+        partialData.recurrence = recurrenceFromFrequency(partialData.frequency);
+      }
+
+      const existing = await storage.getFood(id, userId);
+      if (!existing) {
+        return res.status(404).json({ message: "Food not found" });
+      }
+      const edited = { ...existing, ...partialData } as Food;
+      const windowError = validateTimeWindow(edited);
+      if (windowError) {
+        return res.status(400).json({ message: windowError.message });
+      }
+
+      const diff = affectsSchedule(existing, partialData)
+        ? await diffFoodSchedule(existing, edited, userId)
+        : null;
+      res.json(diff);
+    } catch (error) {
+      res.status(400).json({ message: "Invalid food data" });
+    }
+  });
+
   app.delete("/api/foods/:id", isAuthenticated, async (req: any, res) => {
     try {
       const userId = getUserId(req);
@@ -273,16 +156,406 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Protocol template routes (all protected)
+  app.get("/api/protocol-templates", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = getUserId(req);
+      const saved = await storage.getProtocolTemplates(userId);
+      res.json({ builtIn: builtInProtocolTemplates, saved });
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch protocol templates" });
+    }
+  });
+
+  app.post("/api/protocol-templates", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = getUserId(req);
+      const validatedData = insertProtocolTemplateSchema.parse(req.body);
+      const template = await storage.createProtocolTemplate(validatedData, userId);
+      res.status(201).json(template);
+    } catch (error) {
+      res.status(400).json({ message: "Invalid protocol template data" });
+    }
+  });
+
+  app.delete("/api/protocol-templates/:id", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = getUserId(req);
+      const id = parseInt(req.params.id);
+      const success = await storage.deleteProtocolTemplate(id, userId);
+
+      if (!success) {
+        return res.status(404).json({ message: "Protocol template not found" });
+      }
+
+      res.status(204).send();
+    } catch (error) {
+      res.status(500).json({ message: "Failed to delete protocol template" });
+    }
+  });
+
+  // Product routes (all protected)
+  app.get("/api/products", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = getUserId(req);
+      const products = await storage.getProducts(userId);
+      res.json(products);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch products" });
+    }
+  });
+
+  app.post("/api/products", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = getUserId(req);
+      const validatedData = insertProductSchema.parse(req.body);
+      const product = await storage.createProduct(validatedData, userId);
+      res.status(201).json(product);
+    } catch (error) {
+      res.status(400).json({ message: "Invalid product data" });
+    }
+  });
 
+  app.delete("/api/products/:id", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = getUserId(req);
+      const id = parseInt(req.params.id);
+      const success = await storage.deleteProduct(id, userId);
+
+      if (!success) {
+        return res.status(404).json({ message: "Product not found" });
+      }
+
+      res.status(204).send();
+    } catch (error) {
+      res.status(500).json({ message: "Failed to delete product" });
+    }
+  });
+
+  // Ladder routes (all protected)
+  app.get("/api/ladders", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = getUserId(req);
+      const ladders = await getLaddersWithProgress(userId);
+      res.json(ladders);
+    } catch (error) {
+      console.error("Error getting ladders:", error);
+      res.status(500).json({ message: "Failed to fetch ladders" });
+    }
+  });
+
+  app.post("/api/ladders", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = getUserId(req);
+      const validatedData = insertLadderSchema.parse(req.body);
+      const ladder = await createLadder(validatedData, userId);
+
+      if (!ladder) {
+        return res.status(400).json({ message: "Foods must exist and not already belong to a ladder" });
+      }
+
+      res.status(201).json(ladder);
+    } catch (error) {
+      res.status(400).json({ message: "Invalid ladder data" });
+    }
+  });
+
+  // Advance a ladder to its next rung (caregiver confirmation)
+  app.post("/api/ladders/:id/advance", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = getUserId(req);
+      const id = parseInt(req.params.id);
+      const date = req.body?.date || new Date().toISOString().split('T')[0];
+
+      const ladder = await storage.getLadder(id, userId);
+      if (!ladder) {
+        return res.status(404).json({ message: "Ladder not found" });
+      }
+
+      const advanced = await advanceLadder(ladder, date, userId);
+      if (!advanced) {
+        return res.status(400).json({ message: "Ladder is already on its last rung" });
+      }
+
+      res.json(advanced);
+    } catch (error) {
+      console.error("Error advancing ladder:", error);
+      res.status(500).json({ message: "Failed to advance ladder" });
+    }
+  });
+
+  app.delete("/api/ladders/:id", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = getUserId(req);
+      const id = parseInt(req.params.id);
+
+      const ladder = await storage.getLadder(id, userId);
+      if (!ladder) {
+        return res.status(404).json({ message: "Ladder not found" });
+      }
+
+      await deleteLadder(ladder, userId);
+      res.status(204).send();
+    } catch (error) {
+      res.status(500).json({ message: "Failed to delete ladder" });
+    }
+  });
+
+  // Reaction routes (all protected)
+  app.get("/api/reactions", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = getUserId(req);
+      const { startDate, endDate } = req.query;
+      const reactions = await storage.getReactions(userId, startDate as string | undefined, endDate as string | undefined);
+      res.json(reactions);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch reactions" });
+    }
+  });
+
+  app.post("/api/reactions", isAuthenticated, async (req: any, res) => {
+    const userId = getUserId(req);
+    let reaction: Reaction;
+    try {
+      const validatedData = insertReactionSchema.parse(req.body);
+      if (validatedData.foodId && !(await storage.getFood(validatedData.foodId, userId))) {
+        return res.status(404).json({ message: "Food not found" });
+      }
+      // A completed questionnaire decides the grade
+      const severity = validatedData.gradingAnswers
+        ? gradeReaction(validatedData.gradingAnswers)
+        : validatedData.severity;
+
+      // Saved before touching the schedule so the reaction is never lost
+      reaction = await storage.createReaction({ ...validatedData, severity, followUpAction: null }, userId);
+    } catch (error) {
+      return res.status(400).json({ message: "Invalid reaction data" });
+    }
+
+    try {
+      res.status(201).json(await applyReactionFollowUp(reaction, userId));
+    } catch (error) {
+      // Still a success, so the reaction isn't logged again; the client tells them to check the doses
+      console.error("Error applying reaction follow-up:", error);
+      res.status(201).json({ ...reaction, followUpFailed: true });
+    }
+  });
+
+  app.patch("/api/reactions/:id", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = getUserId(req);
+      const id = parseInt(req.params.id);
+      const partialData = insertReactionSchema.partial().parse(req.body);
+      const existing = await storage.getReaction(id, userId);
+
+      if (!existing) {
+        return res.status(404).json({ message: "Reaction not found" });
+      }
+
+      // Re-grade from the questionnaire, so the severity can't drift from the answers
+      const gradingAnswers = partialData.gradingAnswers !== undefined ? partialData.gradingAnswers : existing.gradingAnswers;
+      const reaction = await storage.updateReaction(id, {
+        ...partialData,
+        ...(gradingAnswers && { severity: gradeReaction(gradingAnswers) }),
+      }, userId);
+      res.json(reaction);
+    } catch (error) {
+      res.status(400).json({ message: "Invalid reaction data" });
+    }
+  });
+
+  app.delete("/api/reactions/:id", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = getUserId(req);
+      const id = parseInt(req.params.id);
+      const success = await storage.deleteReaction(id, userId);
+
+      if (!success) {
+        return res.status(404).json({ message: "Reaction not found" });
+      }
+
+      res.status(204).send();
+    } catch (error) {
+      res.status(500).json({ message: "Failed to delete reaction" });
+    }
+  });
+
+  // Pause routes (all protected)
+  app.get("/api/pauses", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = getUserId(req);
+      const pauses = await storage.getPauses(userId);
+      res.json(pauses);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch pauses" });
+    }
+  });
+
+  app.post("/api/pauses", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = getUserId(req);
+      const validatedData = insertPauseSchema.parse(req.body);
+      if (validatedData.foodId && !(await storage.getFood(validatedData.foodId, userId))) {
+        return res.status(404).json({ message: "Food not found" });
+      }
+
+      const pause = await storage.createPause(validatedData, userId);
+      const removed = await clearPausedEntries(pause, userId);
+      res.status(201).json({ ...pause, removed });
+    } catch (error) {
+      res.status(400).json({ message: "Invalid pause data" });
+    }
+  });
+
+  // End a pause and pick the progression back up, optionally one step lower
+  app.post("/api/pauses/:id/resume", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = getUserId(req);
+      const id = parseInt(req.params.id);
+      const options = resumePauseSchema.parse(req.body ?? {});
+
+      const pause = await storage.getPause(id, userId);
+      if (!pause) {
+        return res.status(404).json({ message: "Pause not found" });
+      }
+      const date = options.date ?? new Date().toISOString().split('T')[0];
+      if (date <= pause.startDate) {
+        return res.status(400).json({ message: "Resume date must be after the pause starts" });
+      }
+
+      const result = await resumePause(pause, { ...options, date }, userId);
+      if (!result) {
+        return res.status(409).json({ message: "Pause has already ended" });
+      }
+      res.json(result);
+    } catch (error) {
+      console.error("Error resuming pause:", error);
+      res.status(400).json({ message: "Failed to resume" });
+    }
+  });
+
+  // Deleting a pause puts its remaining doses back without shifting the progression
+  app.delete("/api/pauses/:id", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = getUserId(req);
+      const id = parseInt(req.params.id);
+      const pause = await storage.getPause(id, userId);
+      if (!pause) {
+        return res.status(404).json({ message: "Pause not found" });
+      }
+
+      await storage.deletePause(id, userId);
+      await restorePausedEntries(pause, userId);
+      res.status(204).send();
+    } catch (error) {
+      res.status(500).json({ message: "Failed to delete pause" });
+    }
+  });
+
+  // Reminder routes (all protected)
+  app.get("/api/reminder-settings", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = getUserId(req);
+      const settings = await storage.getReminderSettings(userId);
+      res.json(settings ?? null);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch reminder settings" });
+    }
+  });
+
+  app.put("/api/reminder-settings", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = getUserId(req);
+      const validatedData = insertReminderSettingsSchema.parse(req.body);
+      const settings = await storage.saveReminderSettings(validatedData, userId);
+      res.json(settings);
+    } catch (error) {
+      res.status(400).json({ message: "Invalid reminder settings" });
+    }
+  });
+
+  app.get("/api/notifications", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = getUserId(req);
+      const notifications = await storage.getNotifications(userId, req.query.unread === 'true');
+      res.json(notifications);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch notifications" });
+    }
+  });
+
+  app.patch("/api/notifications/:id/read", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = getUserId(req);
+      const id = parseInt(req.params.id);
+      const notification = await storage.markNotificationRead(id, userId);
+      if (!notification) {
+        return res.status(404).json({ message: "Notification not found" });
+      }
+      res.json(notification);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to update notification" });
+    }
+  });
+
+  // Admin routes
+  // Background jobs with their state and recent runs, newest first
+  app.get("/api/admin/jobs", isAuthenticated, isAdmin, async (req: any, res) => {
+    try {
+      const limit = Math.min(parseInt(req.query.limit) || 100, 500);
+      const jobName = typeof req.query.job === 'string' ? req.query.job : undefined;
+      const [jobs, runs] = await Promise.all([storage.getJobs(), storage.getJobRuns(limit, jobName)]);
+      res.json({ jobs, runs });
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch jobs" });
+    }
+  });
+
+  // Web Push routes (all protected)
+  app.get("/api/push/vapid-public-key", isAuthenticated, async (req: any, res) => {
+    try {
+      const { publicKey } = await getVapidKeys();
+      res.json({ publicKey });
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch push key" });
+    }
+  });
+
+  app.post("/api/push/subscribe", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = getUserId(req);
+      const validatedData = pushSubscriptionSchema.parse(req.body);
+      const subscription = await storage.savePushSubscription(validatedData, req.get("user-agent") ?? null, userId);
+      res.status(201).json({ id: subscription.id, endpoint: subscription.endpoint });
+    } catch (error) {
+      res.status(400).json({ message: "Invalid push subscription" });
+    }
+  });
+
+  app.delete("/api/push/subscribe", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = getUserId(req);
+      const { endpoint } = pushSubscriptionSchema.pick({ endpoint: true }).parse(req.body);
+      const deleted = await storage.deletePushSubscription(endpoint, userId);
+      if (!deleted) {
+        return res.status(404).json({ message: "Push subscription not found" });
+      }
+      res.status(204).send();
+    } catch (error) {
+      res.status(400).json({ message: "Invalid push subscription" });
+    }
+  });
 
   // Schedule routes (all protected)
   app.get("/api/schedule", isAuthenticated, async (req: any, res) => {
     try {
       const userId = getUserId(req);
       const { startDate, endDate, date } = req.query;
-      
+
       let entries;
       if (startDate && endDate) {
+        // Ranges past the rolling horizon get their entries made on first view
+        await ensureScheduledThrough(userId, endDate as string);
         entries = await storage.getScheduleEntriesForDateRange(
           userId,
           startDate as string, 
@@ -302,7 +575,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     try {
       const userId = getUserId(req);
       const validatedData = insertScheduleEntrySchema.parse(req.body);
-      const entry = await storage.createScheduleEntry(validatedData, userId);
+      const entry = await storage.createScheduleEntry({ ...validatedData, ...withStatus(validatedData) }, userId);
       res.status(201).json(entry);
     } catch (error) {
       res.status(400).json({ message: "Invalid schedule entry data" });
@@ -313,7 +586,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     try {
       const userId = getUserId(req);
       const id = parseInt(req.params.id);
-      const partialData = insertScheduleEntrySchema.partial().parse(req.body);
+      const partialData = withStatus(insertScheduleEntrySchema.partial().parse(req.body));
       const entry = await storage.updateScheduleEntry(id, partialData, userId);
       
       if (!entry) {
@@ -356,12 +629,32 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Push the rest of a food's progression forward, e.g. after a sick week
+  app.post("/api/foods/:id/reschedule", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = getUserId(req);
+      const foodId = parseInt(req.params.id);
+      const date = req.body?.date || new Date().toISOString().split('T')[0];
+
+      const food = await storage.getFood(foodId, userId);
+      if (!food) {
+        return res.status(404).json({ message: "Food not found" });
+      }
+
+      const result = await rescheduleFromDate(food, date, userId);
+      res.json(result);
+    } catch (error) {
+      console.error("Error rescheduling food:", error);
+      res.status(500).json({ message: "Failed to reschedule food" });
+    }
+  });
+
   // Generate schedule for a food based on frequency
   app.post("/api/foods/:id/generate-schedule", isAuthenticated, async (req: any, res) => {
     try {
       const userId = getUserId(req);
       const foodId = parseInt(req.params.id);
-      const { startDate, endDate } = req.body;
+      const { startDate, endDate = horizonDate() } = req.body;
       
       const food = await storage.getFood(foodId, userId);
       if (!food) {
@@ -369,21 +662,18 @@ export async function registerRoutes(app: Express): Promise<Server> {
       }
 
       // Generate schedule entries based on frequency
-      const entries = generateScheduleEntries(food, startDate, endDate);
+      const product = food.productId ? await storage.getProduct(food.productId, userId) : undefined;
+      const pauses = await storage.getPauses(userId);
+      const entries = generateScheduleEntries(food, startDate, endDate, { product, pauses });
       
-      // Create all entries
-      const createdEntries = [];
-      for (const entry of entries) {
-        try {
-          const created = await storage.createScheduleEntry(entry, userId);
-          createdEntries.push(created);
-        } catch (error) {
-          // Skip if entry already exists for this date
-          console.log(`Skipping duplicate entry for ${entry.date}`);
-        }
+      // Upsert by food, date and dose slot, so generating a range again doesn't double it
+      const upserted = await storage.upsertScheduleEntries(entries, userId);
+      const counts = { created: 0, updated: 0, unchanged: 0 };
+      for (const { outcome } of upserted) {
+        counts[outcome]++;
       }
       
-      res.json({ created: createdEntries.length, entries: createdEntries });
+      res.json({ ...counts, entries: upserted.map(({ entry }) => entry) });
     } catch (error) {
       console.error("Error generating schedule:", error);
       res.status(500).json({ message: "Failed to generate schedule" });
@@ -0,0 +1,159 @@
+import { describe, expect, it } from "vitest";
+import type { Food, Pause, Product } from "@shared/schema";
+import { generateScheduleEntries, getProgressionAmount, previewSchedule, toProductDose } from "./schedule";
+
+function food(overrides: Partial<Food>): Food {
+  return {
+    id: 1,
+    userId: "user",
+    name: "Egg",
+    instructions: "",
+    color: "blue",
+    frequency: "Every day",
+    recurrence: null,
+    doseSlots: null,
+    startDate: "2026-10-01",
+    isActive: true,
+    mealType: "any",
+    ladderId: null,
+    ladderRung: null,
+    productId: null,
+    startingAmount: null,
+    targetAmount: null,
+    progressionType: null,
+    doseSteps: null,
+    progressionDuration: null,
+    progressionOffsetDays: 0,
+    missedDoseRules: null,
+    reactionActions: null,
+    observationMinutes: null,
+    restRules: null,
+    startTime: null,
+    endTime: null,
+    timeProgression: null,
+    timeProgressionAmount: null,
+    ...overrides,
+  };
+}
+
+const buildup = food({ progressionType: "buildup", startingAmount: "1 g", targetAmount: "5 g", progressionDuration: 4 });
+const steps = food({ progressionType: "steps", doseSteps: [{ amount: "1 mg", days: 2 }, { amount: "3 mg", days: 2 }] });
+
+describe("generateScheduleEntries", () => {
+  it("builds up to the target amount and holds it", () => {
+    const entries = generateScheduleEntries(buildup, "2026-10-01", "2026-10-06");
+    expect(entries.map(entry => entry.calculatedAmount)).toEqual(["1 g", "2 g", "3 g", "4 g", "5 g", "5 g"]);
+  });
+
+  it("follows protocol steps and records the step", () => {
+    const entries = generateScheduleEntries(steps, "2026-10-01", "2026-10-05");
+    expect(entries.map(entry => [entry.calculatedAmount, entry.stepNumber])).toEqual([
+      ["1 mg", 0], ["1 mg", 0], ["3 mg", 1], ["3 mg", 1], ["3 mg", 1],
+    ]);
+  });
+
+  it("never schedules before the food's start date", () => {
+    const entries = generateScheduleEntries(buildup, "2026-09-28", "2026-10-01");
+    expect(entries.map(entry => entry.date)).toEqual(["2026-10-01"]);
+  });
+
+  it("only schedules the days the recurrence falls on", () => {
+    const everyOtherDay = food({ frequency: "Every 2 days", recurrence: { unit: "day", interval: 2, dosesPerDay: 1 } });
+    const entries = generateScheduleEntries(everyOtherDay, "2026-10-01", "2026-10-05");
+    expect(entries.map(entry => entry.date)).toEqual(["2026-10-01", "2026-10-03", "2026-10-05"]);
+  });
+
+  it("holds the progression back by the food's offset", () => {
+    const shifted = { ...steps, progressionOffsetDays: 2 };
+    expect(generateScheduleEntries(shifted, "2026-10-03", "2026-10-05").map(entry => entry.calculatedAmount)).toEqual(["1 mg", "1 mg", "3 mg"]);
+  });
+
+  it("leaves out the days a pause covers", () => {
+    const pause: Pause = { id: 1, userId: "user", foodId: null, reason: "illness", startDate: "2026-10-02", endDate: "2026-10-03", note: null, createdAt: null };
+    const entries = generateScheduleEntries(buildup, "2026-10-01", "2026-10-05", { pauses: [pause] });
+    expect(entries.map(entry => entry.date)).toEqual(["2026-10-01", "2026-10-04", "2026-10-05"]);
+  });
+
+  it("numbers occurrences on from an existing schedule", () => {
+    const entries = generateScheduleEntries(buildup, "2026-10-03", "2026-10-04", { firstOccurrenceNumber: 2 });
+    expect(entries.map(entry => entry.occurrenceNumber)).toEqual([2, 3]);
+  });
+
+  it("moves the time each dose and stops at the target end time", () => {
+    const later = food({ startTime: "08:00", endTime: "08:40", timeProgression: "later", timeProgressionAmount: 15 });
+    const entries = generateScheduleEntries(later, "2026-10-01", "2026-10-05");
+    expect(entries.map(entry => entry.calculatedTime)).toEqual(["08:00", "08:15", "08:30", "08:40", "08:40"]);
+  });
+
+  it("measures protein doses out of the food's product", () => {
+    const product = { proteinPercent: 25 } as Product;
+    const entries = generateScheduleEntries(food({ productId: 1, startingAmount: "300 mg" }), "2026-10-01", "2026-10-01", { product });
+    expect(entries.map(entry => [entry.calculatedAmount, entry.proteinMg])).toEqual([["1.2 g", 300]]);
+  });
+
+  describe("several doses a day", () => {
+    const twiceDaily = { frequency: "Twice daily", recurrence: { unit: "day" as const, interval: 1, dosesPerDay: 2 } };
+
+    it("adds an entry for each dose of the day", () => {
+      const entries = generateScheduleEntries(food(twiceDaily), "2026-10-01", "2026-10-02");
+      expect(entries.map(entry => [entry.date, entry.doseSlot])).toEqual([
+        ["2026-10-01", 0], ["2026-10-01", 1], ["2026-10-02", 0], ["2026-10-02", 1],
+      ]);
+    });
+
+    it("spreads the doses inside the start and end times", () => {
+      const entries = generateScheduleEntries(food({ ...twiceDaily, startTime: "08:00", endTime: "12:00" }), "2026-10-01", "2026-10-01");
+      expect(entries.map(entry => [entry.doseSlot, entry.calculatedTime])).toEqual([[0, "08:00"], [1, "12:00"]]);
+    });
+
+    it("keeps a late start's doses on the same day", () => {
+      const entries = generateScheduleEntries(food({ ...twiceDaily, startTime: "20:00" }), "2026-10-01", "2026-10-01");
+      expect(entries.map(entry => entry.calculatedTime)).toEqual(["20:00", "23:59"]);
+    });
+
+    it("uses a slot's own time and amount", () => {
+      const entries = generateScheduleEntries(
+        food({ ...twiceDaily, startingAmount: "1 g", startTime: "08:00", doseSlots: [{}, { time: "18:30", amount: "2 g" }] }),
+        "2026-10-01",
+        "2026-10-01"
+      );
+      expect(entries.map(entry => [entry.calculatedTime, entry.calculatedAmount])).toEqual([["08:00", "1 g"], ["18:30", "2 g"]]);
+    });
+  });
+});
+
+describe("getProgressionAmount", () => {
+  it("holds the last step once the protocol is done", () => {
+    expect(getProgressionAmount(steps, "2026-12-01")).toEqual({ amount: "3 mg", stepNumber: 1 });
+  });
+});
+
+describe("toProductDose", () => {
+  const product = { proteinPercent: 25 } as Product;
+
+  it("measures a protein dose out of the product", () => {
+    expect(toProductDose("300 mg", product)).toEqual({ calculatedAmount: "1.2 g", proteinMg: 300 });
+  });
+
+  it("leaves amounts alone without a product or a protein unit", () => {
+    expect(toProductDose("1 tsp", product)).toEqual({ calculatedAmount: "1 tsp", proteinMg: null });
+    expect(toProductDose("300 mg", null)).toEqual({ calculatedAmount: "300 mg", proteinMg: null });
+  });
+});
+
+describe("previewSchedule", () => {
+  it("covers the buildup and two weeks of maintenance", () => {
+    const preview = previewSchedule({
+      name: "Egg", instructions: "", color: "blue", frequency: "Every day", startDate: "2026-10-01",
+      progressionType: "buildup", startingAmount: "1 g", targetAmount: "5 g", progressionDuration: 30,
+    });
+    expect(preview.endDate).toBe("2026-11-13");
+    expect(preview.entries).toHaveLength(44);
+    expect(preview.entries[preview.entries.length - 1].calculatedAmount).toBe("5 g");
+  });
+
+  it("shows at least four weeks", () => {
+    const preview = previewSchedule({ name: "Egg", instructions: "", color: "blue", frequency: "Every day", startDate: "2026-10-01" });
+    expect(preview.entries).toHaveLength(28);
+  });
+});
@@ -0,0 +1,286 @@
+import { type Food, type Product, type Pause, type DoseStep, type InsertFood, type InsertScheduleEntry, type SchedulePreview } from "@shared/schema";
+import { getRecurrence, occursOn } from "@shared/recurrence";
+import { canConvert, formatQuantity, parseQuantity, productAmountForProtein, toBaseValue, toHouseholdMeasure } from "@shared/quantity";
+import { findPause } from "@shared/pauses";
+import { clampToTimeWindow, getDoseSpacing, toMinutes } from "@shared/time-window";
+
+const DAY_MS = 1000 * 60 * 60 * 24;
+const MIN_PREVIEW_DAYS = 28;
+const MAX_PREVIEW_DAYS = 366;
+const PREVIEW_MAINTENANCE_DAYS = 14;
+
+export function daysBetween(startDate: string, date: string): number {
+  return Math.round(
+    (new Date(date + 'T00:00:00.000Z').getTime() - new Date(startDate + 'T00:00:00.000Z').getTime()) / DAY_MS
+  );
+}
+
+// Today's date in UTC, the day schedule dates are compared against
+export function today(): string {
+  return new Date().toISOString().split('T')[0];
+}
+
+export function addDays(date: string, days: number): string {
+  return new Date(new Date(date + 'T00:00:00.000Z').getTime() + days * DAY_MS).toISOString().split('T')[0];
+}
+
+// Utility functions for dose and time calculations
+function calculateProgressiveAmount(
+  startingAmount: string | null,
+  targetAmount: string | null,
+  progressionType: string | null,
+  progressionDuration: number | null,
+  daysElapsed: number
+): string | null {
+  if (!startingAmount || !targetAmount || !progressionType || !progressionDuration) {
+    return startingAmount || null;
+  }
+
+  if (progressionType === 'static') {
+    return startingAmount;
+  }
+
+  // Calculate progression based on days since the food started; the target is
+  // reached after progressionDuration days and then held as maintenance
+  const progress = Math.min(Math.max(daysElapsed, 0) / progressionDuration, 1);
+  if (progress >= 1) {
+    return targetAmount;
+  }
+  
+  // How far along the way from the starting to the target amount this day is
+  let fraction: number;
+  if (progressionType === 'buildup' || progressionType === 'reduction') {
+    fraction = progress;
+  } else if (progressionType === 'custom') {
+    // Custom progression with more complex patterns
+    // Example: Plateau at 50% for middle third, then continue buildup
+    if (progress < 0.33) {
+      // First third: linear buildup to 50% target
+      fraction = 0.5 * (progress / 0.33);
+    } else if (progress < 0.67) {
+      // Middle third: plateau at 50%
+      fraction = 0.5;
+    } else {
+      // Final third: complete buildup to target
+      const finalProgress = (progress - 0.67) / 0.33;
+      fraction = 0.5 + 0.5 * finalProgress;
+    }
+  } else {
+    fraction = 0;
+  }
+
+  // Convertible units progress in their base unit and are shown in a household measure
+  const start = parseQuantity(startingAmount);
+  const target = parseQuantity(targetAmount);
+  if (start && target && canConvert(start.unit, target.unit)) {
+    const startValue = toBaseValue(start);
+    const baseValue = startValue + (toBaseValue(target) - startValue) * fraction;
+    return formatQuantity(toHouseholdMeasure(baseValue, [start.unit, target.unit]));
+  }
+
+  // Otherwise (e.g. "1 slice") progress the leading number and keep the unit
+  const parseAmount = (amount: string) => {
+    const match = amount.match(/^([\d.]+)/);
+    return match ? parseFloat(match[1]) : 1;
+  };
+
+  const startValue = parseAmount(startingAmount);
+  const currentValue = startValue + (parseAmount(targetAmount) - startValue) * fraction;
+
+  // Replace the numeric part while keeping the unit
+  return startingAmount.replace(/^[\d.]+/, currentValue.toFixed(2));
+}
+
+// Index of the protocol step in effect `daysElapsed` days into the progression. Each
+// step is held for its minimum number of days; the last step is held indefinitely.
+function getDoseStepIndex(steps: DoseStep[], daysElapsed: number): number {
+  let stepEnd = 0;
+  for (let i = 0; i < steps.length; i++) {
+    stepEnd += steps[i].days;
+    if (daysElapsed < stepEnd) return i;
+  }
+  return steps.length - 1;
+}
+
+function formatMinutes(totalMinutes: number): string {
+  // Wrap around 24 hour format
+  const wrapped = ((totalMinutes % (24 * 60)) + (24 * 60)) % (24 * 60);
+
+  const hours = Math.floor(wrapped / 60);
+  const minutes = wrapped % 60;
+
+  return `${hours.toString().padStart(2, '0')}:${minutes.toString().padStart(2, '0')}`;
+}
+
+function calculateProgressiveTime(
+  baseTime: string | null,
+  food: Pick<Food, 'endTime' | 'timeProgression' | 'timeProgressionAmount'>,
+  occurrenceNumber: number
+): string | null {
+  const { timeProgression, timeProgressionAmount } = food;
+  if (!baseTime || !timeProgression || !timeProgressionAmount || timeProgression === 'static') {
+    return baseTime;
+  }
+
+  // Parse time (HH:MM format)
+  const baseMinutes = toMinutes(baseTime);
+  let totalMinutes = baseMinutes;
+
+  // Apply progression
+  if (timeProgression === 'later') {
+    totalMinutes += timeProgressionAmount * occurrenceNumber;
+  } else if (timeProgression === 'earlier') {
+    totalMinutes -= timeProgressionAmount * occurrenceNumber;
+  }
+
+  // The progression stops at the target end time rather than wrapping past midnight
+  return formatMinutes(clampToTimeWindow(totalMinutes, baseMinutes, food));
+}
+
+// Base time for one dose of the day: the slot's own time, or the food's start time
+// with later doses spread evenly after it (see getDoseSpacing)
+function getDoseSlotTime(food: Food, doseSlot: number, dosesPerDay: number): string | null {
+  const slotTime = food.doseSlots?.[doseSlot]?.time;
+  if (slotTime) return slotTime;
+  if (!food.startTime || doseSlot === 0) return food.startTime;
+
+  return formatMinutes(toMinutes(food.startTime) + getDoseSpacing(food, dosesPerDay)! * doseSlot);
+}
+
+// Amount the food's progression prescribes on `date`, and the protocol step it belongs to
+export function getProgressionAmount(food: Food, date: string): { amount: string | null; stepNumber: number | null } {
+  // Rescheduling and missed-dose step-downs push the progression back without moving
+  // the food's start date
+  const daysElapsed = daysBetween(food.startDate, date) - food.progressionOffsetDays;
+
+  if (food.progressionType === 'steps' && food.doseSteps?.length) {
+    const stepNumber = getDoseStepIndex(food.doseSteps, daysElapsed);
+    return { amount: food.doseSteps[stepNumber].amount, stepNumber };
+  }
+
+  return {
+    amount: calculateProgressiveAmount(
+      food.startingAmount,
+      food.targetAmount,
+      food.progressionType,
+      food.progressionDuration,
+      daysElapsed
+    ),
+    stepNumber: null,
+  };
+}
+
+// For foods dosed from a product, amounts are mg of allergen protein. The entry
+// carries the protein dose and the amount of product to measure out.
+export function toProductDose(amount: string | null, product?: Product | null): Pick<InsertScheduleEntry, 'calculatedAmount' | 'proteinMg'> {
+  const protein = amount ? parseQuantity(amount) : null;
+  if (!product || !protein || !canConvert(protein.unit, 'mg')) {
+    return { calculatedAmount: amount, proteinMg: null };
+  }
+
+  const proteinMg = toBaseValue(protein);
+  return {
+    calculatedAmount: formatQuantity(productAmountForProtein(proteinMg, product.proteinPercent)),
+    proteinMg,
+  };
+}
+
+interface GenerateOptions {
+  product?: Product | null; // For foods dosed from a product
+  firstOccurrenceNumber?: number; // When continuing an existing schedule
+  pauses?: Pause[]; // Days they cover get no entries
+}
+
+// Schedule generation utility
+export function generateScheduleEntries(food: Food, startDateStr: string, endDateStr: string, options: GenerateOptions = {}) {
+  const { product, firstOccurrenceNumber = 0, pauses = [] } = options;
+  const entries: InsertScheduleEntry[] = [];
+  const recurrence = getRecurrence(food);
+  const endDate = new Date(endDateStr + 'T00:00:00.000Z');
+
+  // Never schedule anything before the food's own start date
+  const firstDate = startDateStr > food.startDate ? startDateStr : food.startDate;
+
+  // First pass: determine dosing days
+  const dosingDays: string[] = [];
+  const currentDate = new Date(firstDate + 'T00:00:00.000Z');
+  while (currentDate <= endDate) {
+    const dateStr = currentDate.toISOString().split('T')[0];
+    if (occursOn(recurrence, food.startDate, dateStr) && !findPause(pauses, food.id, dateStr)) {
+      dosingDays.push(dateStr);
+    }
+    currentDate.setUTCDate(currentDate.getUTCDate() + 1);
+  }
+
+  // Second pass: generate actual entries with calculated values, one per dose of the day
+  dosingDays.forEach((date, index) => {
+    const occurrenceNumber = firstOccurrenceNumber + index;
+    const { amount: calculatedAmount, stepNumber } = getProgressionAmount(food, date);
+
+    for (let doseSlot = 0; doseSlot < recurrence.dosesPerDay; doseSlot++) {
+      const calculatedTime = calculateProgressiveTime(
+        getDoseSlotTime(food, doseSlot, recurrence.dosesPerDay),
+        food,
+        occurrenceNumber
+      );
+
+      entries.push({
+        foodId: food.id,
+        date,
+        ...toProductDose(food.doseSlots?.[doseSlot]?.amount || calculatedAmount, product),
+        calculatedTime,
+        occurrenceNumber,
+        doseSlot,
+        stepNumber,
+      });
+    }
+  });
+
+  return entries;
+}
+
+// Stand-in for an unsaved food so the generator can run on it
+function asUnsavedFood(food: InsertFood): Food {
+  return {
+    ...food,
+    id: 0,
+    userId: "",
+    isActive: true,
+    mealType: food.mealType ?? "any",
+    ladderId: null,
+    ladderRung: null,
+    productId: food.productId ?? null,
+    progressionOffsetDays: 0,
+    recurrence: food.recurrence ?? null,
+    doseSlots: food.doseSlots ?? null,
+    startingAmount: food.startingAmount ?? null,
+    targetAmount: food.targetAmount ?? null,
+    progressionType: food.progressionType ?? null,
+    progressionDuration: food.progressionDuration ?? null,
+    doseSteps: food.doseSteps ?? null,
+    missedDoseRules: food.missedDoseRules ?? null,
+    reactionActions: food.reactionActions ?? null,
+    observationMinutes: food.observationMinutes ?? null,
+    restRules: food.restRules ?? null,
+    startTime: food.startTime ?? null,
+    endTime: food.endTime ?? null,
+    timeProgression: food.timeProgression ?? null,
+    timeProgressionAmount: food.timeProgressionAmount ?? null,
+  };
+}
+
+// Dry run of the generator for an unsaved food. Covers the buildup plus two weeks of
+// maintenance, so the preview shows the dose levelling off.
+export function previewSchedule(food: InsertFood, options: Pick<GenerateOptions, "product" | "pauses"> = {}): SchedulePreview {
+  const buildupDays = food.progressionType === 'steps' && food.doseSteps?.length
+    ? food.doseSteps.reduce((total, step) => total + step.days, 0)
+    : food.progressionType && food.progressionType !== 'static' ? food.progressionDuration ?? 0 : 0;
+  const days = Math.min(Math.max(buildupDays + PREVIEW_MAINTENANCE_DAYS, MIN_PREVIEW_DAYS), MAX_PREVIEW_DAYS);
+  const endDate = addDays(food.startDate, days - 1);
+
+  return {
+    startDate: food.startDate,
+    endDate,
+    entries: generateScheduleEntries(asUnsavedFood(food), food.startDate, endDate, options),
+  };
+}
@@ -2,14 +2,50 @@ import {
   foods, 
   scheduleEntries, 
   users,
+  protocolTemplates,
+  ladders,
+  products,
+  reactions,
+  pauses,
+  reminderSettings,
+  notifications,
+  pushSubscriptions,
+  vapidKeys,
+  jobs,
+  jobRuns,
+  sessions,
   type Food, 
   type InsertFood, 
   type ScheduleEntry, 
   type InsertScheduleEntry,
-  type User
+  type UpsertedScheduleEntry,
+  type ScheduleEntryUpdate,
+  type ScheduleChanges,
+  type User,
+  type ProtocolTemplate,
+  type InsertProtocolTemplate,
+  type Ladder,
+  type Product,
+  type InsertProduct,
+  type Reaction,
+  type InsertReaction,
+  type ReactionAction,
+  type Pause,
+  type InsertPause,
+  type ReminderSettings,
+  type InsertReminderSettings,
+  type Notification,
+  type InsertNotification,
+  type PushSubscription,
+  type PushSubscriptionInput,
+  type VapidKeys,
+  type Job,
+  type JobRun
 } from "@shared/schema";
+import { isDoseTaken } from "@shared/entry-status";
 import { db } from "./db";
-import { eq, and } from "drizzle-orm";
+import { localDate } from "./time-zone";
+import { eq, and, or, gte, lte, lt, inArray, isNull, desc, asc, sql } from "drizzle-orm";
 
 export interface IStorage {
   // User operations
@@ -23,30 +59,159 @@ export interface IStorage {
   createFood(food: InsertFood, userId: string): Promise<Food>;
   updateFood(id: number, food: Partial<InsertFood>, userId: string): Promise<Food | undefined>;
   deleteFood(id: number, userId: string): Promise<boolean>;
+  updateFoodLadder(id: number, ladderId: number | null, ladderRung: number | null, userId: string): Promise<Food | undefined>;
+  getAllActiveFoods(): Promise<Food[]>; // Active foods for every user, for background jobs
 
   // Schedule operations (now require userId)
   getScheduleEntries(userId: string, date?: string): Promise<ScheduleEntry[]>;
   getScheduleEntriesForDateRange(userId: string, startDate: string, endDate: string): Promise<ScheduleEntry[]>;
   createScheduleEntry(entry: InsertScheduleEntry, userId: string): Promise<ScheduleEntry>;
+  upsertScheduleEntry(entry: InsertScheduleEntry, userId: string): Promise<UpsertedScheduleEntry>; // By food, date and dose slot
+  // Bulk versions for generated schedules. Each runs in one transaction, so a batch is
+  // saved completely or not at all. Results are in the order given.
+  upsertScheduleEntries(entries: InsertScheduleEntry[], userId: string): Promise<UpsertedScheduleEntry[]>;
+  updateScheduleEntries(updates: ScheduleEntryUpdate[], userId: string): Promise<ScheduleEntry[]>; // Entries not found are left out
+  applyScheduleChanges(changes: ScheduleChanges, userId: string): Promise<UpsertedScheduleEntry[]>; // Food updates, deletes, updates, then upserts
   updateScheduleEntry(id: number, entry: Partial<InsertScheduleEntry>, userId: string): Promise<ScheduleEntry | undefined>;
   deleteScheduleEntry(id: number, userId: string): Promise<boolean>;
   deleteScheduleEntriesForFood(foodId: number, userId: string): Promise<void>;
   deleteScheduleEntriesForDate(date: string, userId: string): Promise<void>;
+  deleteFutureScheduleEntriesForFood(foodId: number, fromDate: string, userId: string): Promise<void>; // Pending entries on or after fromDate
+  markMissedEntries(now: Date): Promise<number>; // Pending entries from before each user's local date at `now`, for every user
+
+  // Ladder operations
+  getLadders(userId: string): Promise<Ladder[]>;
+  getLadder(id: number, userId: string): Promise<Ladder | undefined>;
+  getAllActiveLadders(): Promise<Ladder[]>; // Active ladders for every user, for background jobs
+  createLadder(ladder: { name: string; advanceMode: Ladder["advanceMode"]; rungStartedAt: string }, userId: string): Promise<Ladder>;
+  updateLadder(id: number, ladder: Partial<Pick<Ladder, "currentRung" | "rungStartedAt" | "isActive">>, userId: string): Promise<Ladder | undefined>;
+
+  // Protocol template operations (user-saved templates only)
+  getProtocolTemplates(userId: string): Promise<ProtocolTemplate[]>;
+  createProtocolTemplate(template: InsertProtocolTemplate, userId: string): Promise<ProtocolTemplate>;
+  deleteProtocolTemplate(id: number, userId: string): Promise<boolean>;
+
+  // Product operations
+  getProducts(userId: string): Promise<Product[]>;
+  getProduct(id: number, userId: string): Promise<Product | undefined>;
+  createProduct(product: InsertProduct, userId: string): Promise<Product>;
+  deleteProduct(id: number, userId: string): Promise<boolean>;
+
+  // Reaction operations
+  getReactions(userId: string, startDate?: string, endDate?: string): Promise<Reaction[]>;
+  getReaction(id: number, userId: string): Promise<Reaction | undefined>;
+  createReaction(reaction: InsertReaction & { followUpAction: ReactionAction | null }, userId: string): Promise<Reaction>;
+  updateReaction(id: number, reaction: Partial<InsertReaction & { followUpAction: ReactionAction | null }>, userId: string): Promise<Reaction | undefined>;
+  deleteReaction(id: number, userId: string): Promise<boolean>;
+
+  // Pause operations
+  getPauses(userId: string): Promise<Pause[]>;
+  getPause(id: number, userId: string): Promise<Pause | undefined>;
+  createPause(pause: InsertPause, userId: string): Promise<Pause>;
+  updatePause(id: number, pause: Partial<InsertPause>, userId: string): Promise<Pause | undefined>;
+  deletePause(id: number, userId: string): Promise<boolean>;
+
+  // Reminder operations
+  getReminderSettings(userId: string): Promise<ReminderSettings | undefined>;
+  getAllReminderSettings(): Promise<ReminderSettings[]>; // Enabled settings for every user, for the scheduler
+  saveReminderSettings(settings: InsertReminderSettings, userId: string): Promise<ReminderSettings>;
+  getNotifications(userId: string, unreadOnly?: boolean): Promise<Notification[]>; // In-app notifications, newest first
+  getNotificationsForEntry(scheduleEntryId: number): Promise<Notification[]>;
+  createNotification(notification: InsertNotification, userId: string): Promise<Notification>;
+  markNotificationRead(id: number, userId: string): Promise<Notification | undefined>;
+
+  // Web Push operations
+  getPushSubscriptions(userId: string): Promise<PushSubscription[]>;
+  savePushSubscription(subscription: PushSubscriptionInput, userAgent: string | null, userId: string): Promise<PushSubscription>; // Replaces any row for the same endpoint
+  deletePushSubscription(endpoint: string, userId: string): Promise<boolean>;
+  getVapidKeys(): Promise<VapidKeys | undefined>;
+  saveVapidKeys(keys: VapidKeys): Promise<VapidKeys>; // Returns the keys in use, which are the first ones saved
+
+  // Background job operations
+  getJobs(): Promise<Job[]>;
+  ensureJob(name: string, nextRunAt: Date): Promise<void>; // Adds the job unless it already has state
+  claimJob(name: string, instanceId: string, now: Date, lockedUntil: Date): Promise<Job | undefined>; // Locks the job if it's due and not locked
+  releaseJob(name: string, instanceId: string, status: NonNullable<Job["lastStatus"]>, nextRunAt: Date): Promise<void>;
+  createJobRun(run: Omit<JobRun, "id">): Promise<JobRun>;
+  finishJobRun(id: number, run: Pick<JobRun, "status" | "finishedAt" | "result" | "error">): Promise<JobRun | undefined>;
+  getJobRuns(limit: number, jobName?: string): Promise<JobRun[]>; // Newest first
+  deleteJobRunsBefore(date: Date): Promise<number>;
+  purgeExpiredSessions(now: Date): Promise<number>;
+}
+
+// Same key as the schedule_entries unique index, within one user's entries
+const doseKey = (entry: { foodId: number; date: string; doseSlot?: number | null }) =>
+  `${entry.foodId}:${entry.date}:${entry.doseSlot ?? 0}`;
+
+// The fields generation sets on an entry. The rest record what actually happened to the dose.
+function generatedFields(entry: InsertScheduleEntry): Partial<InsertScheduleEntry> {
+  return {
+    calculatedAmount: entry.calculatedAmount ?? null,
+    proteinMg: entry.proteinMg ?? null,
+    calculatedTime: entry.calculatedTime ?? null,
+    occurrenceNumber: entry.occurrenceNumber ?? null,
+    stepNumber: entry.stepNumber ?? null,
+  };
+}
+
+// Whether upserting `entry` over `existing` should change it. Doses that were taken,
+// skipped, missed or adjusted after a missed streak or reaction are kept as they are.
+function needsRegeneratedFields(existing: ScheduleEntry, entry: InsertScheduleEntry): boolean {
+  if (existing.status !== "pending" || existing.adjustmentNote) return false;
+  const fields = generatedFields(entry);
+  return (Object.keys(fields) as (keyof typeof fields)[]).some(key => fields[key] !== existing[key]);
 }
 
 export class MemStorage implements IStorage {
   private users: Map<string, User>;
   private foods: Map<number, Food>;
   private scheduleEntries: Map<number, ScheduleEntry>;
+  private protocolTemplates: Map<number, ProtocolTemplate>;
+  private ladders: Map<number, Ladder>;
+  private products: Map<number, Product>;
+  private reactions: Map<number, Reaction>;
+  private pauses: Map<number, Pause>;
+  private reminderSettings: Map<string, ReminderSettings>;
+  private notifications: Map<number, Notification>;
+  private pushSubscriptions: Map<string, PushSubscription>; // By endpoint
+  private vapidKeys: VapidKeys | undefined;
+  private jobs: Map<string, Job>;
+  private jobRuns: Map<number, JobRun>;
   private currentFoodId: number;
   private currentScheduleId: number;
+  private currentProtocolTemplateId: number;
+  private currentLadderId: number;
+  private currentProductId: number;
+  private currentReactionId: number;
+  private currentPauseId: number;
+  private currentNotificationId: number;
+  private currentPushSubscriptionId: number;
+  private currentJobRunId: number;
 
   constructor() {
     this.users = new Map();
     this.foods = new Map();
     this.scheduleEntries = new Map();
+    this.protocolTemplates = new Map();
+    this.ladders = new Map();
+    this.products = new Map();
+    this.reactions = new Map();
+    this.pauses = new Map();
+    this.reminderSettings = new Map();
+    this.notifications = new Map();
+    this.pushSubscriptions = new Map();
+    this.jobs = new Map();
+    this.jobRuns = new Map();
     this.currentFoodId = 1;
     this.currentScheduleId = 1;
+    this.currentProtocolTemplateId = 1;
+    this.currentLadderId = 1;
+    this.currentProductId = 1;
+    this.currentReactionId = 1;
+    this.currentPauseId = 1;
+    this.currentNotificationId = 1;
+    this.currentPushSubscriptionId = 1;
+    this.currentJobRunId = 1;
   }
 
   // User operations
@@ -87,10 +252,21 @@ export class MemStorage implements IStorage {
       id,
       isActive: true,
       mealType: insertFood.mealType ?? "any",
+      ladderId: null,
+      ladderRung: null,
+      productId: insertFood.productId ?? null,
+      progressionOffsetDays: 0,
+      recurrence: insertFood.recurrence ?? null,
+      doseSlots: insertFood.doseSlots ?? null,
       startingAmount: insertFood.startingAmount ?? null,
       targetAmount: insertFood.targetAmount ?? null,
       progressionType: insertFood.progressionType ?? null,
       progressionDuration: insertFood.progressionDuration ?? null,
+      doseSteps: insertFood.doseSteps ?? null,
+      missedDoseRules: insertFood.missedDoseRules ?? null,
+      reactionActions: insertFood.reactionActions ?? null,
+      observationMinutes: insertFood.observationMinutes ?? null,
+      restRules: insertFood.restRules ?? null,
       startTime: insertFood.startTime ?? null,
       endTime: insertFood.endTime ?? null,
       timeProgression: insertFood.timeProgression ?? null,
@@ -122,6 +298,19 @@ export class MemStorage implements IStorage {
     return true;
   }
 
+  async updateFoodLadder(id: number, ladderId: number | null, ladderRung: number | null, userId: string): Promise<Food | undefined> {
+    const food = this.foods.get(id);
+    if (!food || food.userId !== userId) return undefined;
+
+    const updatedFood: Food = { ...food, ladderId, ladderRung };
+    this.foods.set(id, updatedFood);
+    return updatedFood;
+  }
+
+  async getAllActiveFoods(): Promise<Food[]> {
+    return Array.from(this.foods.values()).filter(food => food.isActive);
+  }
+
   // Schedule operations
   async getScheduleEntries(userId: string, date?: string): Promise<ScheduleEntry[]> {
     const entries = Array.from(this.scheduleEntries.values()).filter(e => e.userId === userId);
@@ -134,17 +323,35 @@ export class MemStorage implements IStorage {
     });
   }
 
+  // Same key as the schedule_entries unique index
+  private findScheduleEntry(userId: string, foodId: number, date: string, doseSlot: number, exceptId?: number): ScheduleEntry | undefined {
+    return Array.from(this.scheduleEntries.values()).find(entry =>
+      entry.userId === userId && entry.foodId === foodId && entry.date === date && entry.doseSlot === doseSlot && entry.id !== exceptId
+    );
+  }
+
   async createScheduleEntry(insertEntry: InsertScheduleEntry, userId: string): Promise<ScheduleEntry> {
+    if (this.findScheduleEntry(userId, insertEntry.foodId, insertEntry.date, insertEntry.doseSlot ?? 0)) {
+      throw new Error(`Schedule entry already exists for food ${insertEntry.foodId} on ${insertEntry.date}`);
+    }
     const id = this.currentScheduleId++;
     const entry: ScheduleEntry = { 
       ...insertEntry,
       userId,
       id,
-      isCompleted: false,
+      status: insertEntry.status ?? "pending",
+      isCompleted: isDoseTaken(insertEntry.status ?? "pending"),
+      actualAmount: insertEntry.actualAmount ?? null,
+      skipReason: insertEntry.skipReason ?? null,
       completedAt: insertEntry.completedAt ?? null,
       calculatedAmount: insertEntry.calculatedAmount ?? null,
+      proteinMg: insertEntry.proteinMg ?? null,
       calculatedTime: insertEntry.calculatedTime ?? null,
-      occurrenceNumber: insertEntry.occurrenceNumber ?? null
+      occurrenceNumber: insertEntry.occurrenceNumber ?? null,
+      stepNumber: insertEntry.stepNumber ?? null,
+      doseSlot: insertEntry.doseSlot ?? 0,
+      adjustmentNote: insertEntry.adjustmentNote ?? null,
+      adjustedForMissedDays: insertEntry.adjustedForMissedDays ?? null
     };
     this.scheduleEntries.set(id, entry);
     return entry;
@@ -155,10 +362,77 @@ export class MemStorage implements IStorage {
     if (!entry || entry.userId !== userId) return undefined;
 
     const updatedEntry: ScheduleEntry = { ...entry, ...updateEntry };
+    if (this.findScheduleEntry(userId, updatedEntry.foodId, updatedEntry.date, updatedEntry.doseSlot, id)) {
+      throw new Error(`Schedule entry already exists for food ${updatedEntry.foodId} on ${updatedEntry.date}`);
+    }
     this.scheduleEntries.set(id, updatedEntry);
     return updatedEntry;
   }
 
+  async upsertScheduleEntry(insertEntry: InsertScheduleEntry, userId: string): Promise<UpsertedScheduleEntry> {
+    const existing = this.findScheduleEntry(userId, insertEntry.foodId, insertEntry.date, insertEntry.doseSlot ?? 0);
+    if (!existing) {
+      return { entry: await this.createScheduleEntry(insertEntry, userId), outcome: "created" };
+    }
+    if (!needsRegeneratedFields(existing, insertEntry)) {
+      return { entry: existing, outcome: "unchanged" };
+    }
+
+    const entry: ScheduleEntry = { ...existing, ...generatedFields(insertEntry) };
+    this.scheduleEntries.set(entry.id, entry);
+    return { entry, outcome: "updated" };
+  }
+
+  // Puts the schedule and foods back as they were if `apply` throws, like a rolled back transaction
+  private async withScheduleRollback<T>(apply: () => Promise<T>): Promise<T> {
+    const snapshot = new Map(this.scheduleEntries);
+    const foodsSnapshot = new Map(this.foods);
+    try {
+      return await apply();
+    } catch (error) {
+      this.scheduleEntries = snapshot;
+      this.foods = foodsSnapshot;
+      throw error;
+    }
+  }
+
+  async upsertScheduleEntries(insertEntries: InsertScheduleEntry[], userId: string): Promise<UpsertedScheduleEntry[]> {
+    assertUniqueDoses(insertEntries);
+    return this.withScheduleRollback(async () => {
+      const results: UpsertedScheduleEntry[] = [];
+      for (const entry of insertEntries) {
+        results.push(await this.upsertScheduleEntry(entry, userId));
+      }
+      return results;
+    });
+  }
+
+  async updateScheduleEntries(updates: ScheduleEntryUpdate[], userId: string): Promise<ScheduleEntry[]> {
+    return this.withScheduleRollback(async () => {
+      const updated: ScheduleEntry[] = [];
+      for (const { id, changes } of updates) {
+        const entry = await this.updateScheduleEntry(id, changes, userId);
+        if (entry) updated.push(entry);
+      }
+      return updated;
+    });
+  }
+
+  async applyScheduleChanges(changes: ScheduleChanges, userId: string): Promise<UpsertedScheduleEntry[]> {
+    assertUniqueDoses(changes.upserts);
+    return this.withScheduleRollback(async () => {
+      for (const { id, changes: foodChanges } of changes.foodUpdates ?? []) {
+        const food = this.foods.get(id);
+        if (food && food.userId === userId) this.foods.set(id, { ...food, ...foodChanges });
+      }
+      for (const id of changes.deleteIds) {
+        await this.deleteScheduleEntry(id, userId);
+      }
+      await this.updateScheduleEntries(changes.updates, userId);
+      return this.upsertScheduleEntries(changes.upserts, userId);
+    });
+  }
+
   async deleteScheduleEntry(id: number, userId: string): Promise<boolean> {
     const entry = this.scheduleEntries.get(id);
     if (!entry || entry.userId !== userId) return false;
@@ -180,9 +454,486 @@ export class MemStorage implements IStorage {
     
     entriesToDelete.forEach(id => this.scheduleEntries.delete(id));
   }
+
+  async deleteFutureScheduleEntriesForFood(foodId: number, fromDate: string, userId: string): Promise<void> {
+    const entriesToDelete = Array.from(this.scheduleEntries.entries())
+      .filter(([id, entry]) =>
+        entry.foodId === foodId && entry.userId === userId && entry.date >= fromDate && entry.status === "pending"
+      )
+      .map(([id]) => id);
+
+    entriesToDelete.forEach(id => this.scheduleEntries.delete(id));
+  }
+
+  async markMissedEntries(now: Date): Promise<number> {
+    const missedEntries = Array.from(this.scheduleEntries.values()).filter(entry =>
+      entry.status === "pending" &&
+      entry.date < localDate(now, this.reminderSettings.get(entry.userId)?.timeZone ?? "UTC")
+    );
+
+    missedEntries.forEach(entry => this.scheduleEntries.set(entry.id, { ...entry, status: "missed" }));
+    return missedEntries.length;
+  }
+
+  // Ladder operations
+  async getLadders(userId: string): Promise<Ladder[]> {
+    return Array.from(this.ladders.values()).filter(ladder => ladder.isActive && ladder.userId === userId);
+  }
+
+  async getLadder(id: number, userId: string): Promise<Ladder | undefined> {
+    const ladder = this.ladders.get(id);
+    return ladder?.userId === userId ? ladder : undefined;
+  }
+
+  async getAllActiveLadders(): Promise<Ladder[]> {
+    return Array.from(this.ladders.values()).filter(ladder => ladder.isActive);
+  }
+
+  async createLadder(insertLadder: { name: string; advanceMode: Ladder["advanceMode"]; rungStartedAt: string }, userId: string): Promise<Ladder> {
+    const id = this.currentLadderId++;
+    const ladder: Ladder = {
+      ...insertLadder,
+      userId,
+      id,
+      currentRung: 0,
+      isActive: true,
+    };
+    this.ladders.set(id, ladder);
+    return ladder;
+  }
+
+  async updateLadder(id: number, updateLadder: Partial<Pick<Ladder, "currentRung" | "rungStartedAt" | "isActive">>, userId: string): Promise<Ladder | undefined> {
+    const ladder = this.ladders.get(id);
+    if (!ladder || ladder.userId !== userId) return undefined;
+
+    const updatedLadder: Ladder = { ...ladder, ...updateLadder };
+    this.ladders.set(id, updatedLadder);
+    return updatedLadder;
+  }
+
+  // Protocol template operations
+  async getProtocolTemplates(userId: string): Promise<ProtocolTemplate[]> {
+    return Array.from(this.protocolTemplates.values()).filter(t => t.userId === userId);
+  }
+
+  async createProtocolTemplate(insertTemplate: InsertProtocolTemplate, userId: string): Promise<ProtocolTemplate> {
+    const id = this.currentProtocolTemplateId++;
+    const template: ProtocolTemplate = {
+      ...insertTemplate,
+      userId,
+      id,
+      description: insertTemplate.description ?? null,
+      createdAt: new Date(),
+    };
+    this.protocolTemplates.set(id, template);
+    return template;
+  }
+
+  async deleteProtocolTemplate(id: number, userId: string): Promise<boolean> {
+    const template = this.protocolTemplates.get(id);
+    if (!template || template.userId !== userId) return false;
+    return this.protocolTemplates.delete(id);
+  }
+
+  // Product operations
+  async getProducts(userId: string): Promise<Product[]> {
+    return Array.from(this.products.values()).filter(product => product.isActive && product.userId === userId);
+  }
+
+  async getProduct(id: number, userId: string): Promise<Product | undefined> {
+    const product = this.products.get(id);
+    return product?.userId === userId ? product : undefined;
+  }
+
+  async createProduct(insertProduct: InsertProduct, userId: string): Promise<Product> {
+    const id = this.currentProductId++;
+    const product: Product = { ...insertProduct, userId, id, isActive: true };
+    this.products.set(id, product);
+    return product;
+  }
+
+  async deleteProduct(id: number, userId: string): Promise<boolean> {
+    const product = this.products.get(id);
+    if (!product || product.userId !== userId) return false;
+
+    // Soft delete, foods dosed from the product keep referencing it
+    this.products.set(id, { ...product, isActive: false });
+    return true;
+  }
+
+  // Reaction operations
+  async getReactions(userId: string, startDate?: string, endDate?: string): Promise<Reaction[]> {
+    return Array.from(this.reactions.values()).filter(reaction =>
+      reaction.userId === userId &&
+      (!startDate || reaction.date >= startDate) &&
+      (!endDate || reaction.date <= endDate)
+    );
+  }
+
+  async getReaction(id: number, userId: string): Promise<Reaction | undefined> {
+    const reaction = this.reactions.get(id);
+    return reaction && reaction.userId === userId ? reaction : undefined;
+  }
+
+  async createReaction(insertReaction: InsertReaction & { followUpAction: ReactionAction | null }, userId: string): Promise<Reaction> {
+    const id = this.currentReactionId++;
+    const reaction: Reaction = {
+      ...insertReaction,
+      userId,
+      id,
+      foodId: insertReaction.foodId ?? null,
+      scheduleEntryId: insertReaction.scheduleEntryId ?? null,
+      onsetMinutes: insertReaction.onsetMinutes ?? null,
+      treatment: insertReaction.treatment ?? null,
+      note: insertReaction.note ?? null,
+      gradingAnswers: insertReaction.gradingAnswers ?? null,
+      acknowledged: insertReaction.acknowledged ?? false,
+      createdAt: new Date(),
+    };
+    this.reactions.set(id, reaction);
+    return reaction;
+  }
+
+  async updateReaction(id: number, updateReaction: Partial<InsertReaction & { followUpAction: ReactionAction | null }>, userId: string): Promise<Reaction | undefined> {
+    const reaction = this.reactions.get(id);
+    if (!reaction || reaction.userId !== userId) return undefined;
+
+    const updatedReaction: Reaction = { ...reaction, ...updateReaction };
+    this.reactions.set(id, updatedReaction);
+    return updatedReaction;
+  }
+
+  async deleteReaction(id: number, userId: string): Promise<boolean> {
+    const reaction = this.reactions.get(id);
+    if (!reaction || reaction.userId !== userId) return false;
+    return this.reactions.delete(id);
+  }
+
+  // Pause operations
+  async getPauses(userId: string): Promise<Pause[]> {
+    return Array.from(this.pauses.values()).filter(pause => pause.userId === userId);
+  }
+
+  async getPause(id: number, userId: string): Promise<Pause | undefined> {
+    const pause = this.pauses.get(id);
+    return pause && pause.userId === userId ? pause : undefined;
+  }
+
+  async createPause(insertPause: InsertPause, userId: string): Promise<Pause> {
+    const id = this.currentPauseId++;
+    const pause: Pause = {
+      ...insertPause,
+      id,
+      userId,
+      foodId: insertPause.foodId ?? null,
+      endDate: insertPause.endDate ?? null,
+      note: insertPause.note ?? null,
+      createdAt: new Date(),
+    };
+    this.pauses.set(id, pause);
+    return pause;
+  }
+
+  async updatePause(id: number, updatePause: Partial<InsertPause>, userId: string): Promise<Pause | undefined> {
+    const pause = this.pauses.get(id);
+    if (!pause || pause.userId !== userId) return undefined;
+
+    const updatedPause: Pause = { ...pause, ...updatePause };
+    this.pauses.set(id, updatedPause);
+    return updatedPause;
+  }
+
+  async deletePause(id: number, userId: string): Promise<boolean> {
+    const pause = this.pauses.get(id);
+    if (!pause || pause.userId !== userId) return false;
+    return this.pauses.delete(id);
+  }
+
+  // Reminder operations
+  async getReminderSettings(userId: string): Promise<ReminderSettings | undefined> {
+    return this.reminderSettings.get(userId);
+  }
+
+  async getAllReminderSettings(): Promise<ReminderSettings[]> {
+    return Array.from(this.reminderSettings.values()).filter(settings => settings.enabled);
+  }
+
+  async saveReminderSettings(insertSettings: InsertReminderSettings, userId: string): Promise<ReminderSettings> {
+    const settings: ReminderSettings = {
+      ...insertSettings,
+      userId,
+      enabled: insertSettings.enabled ?? true,
+      leadMinutes: insertSettings.leadMinutes ?? 15,
+      escalateAfterMinutes: insertSettings.escalateAfterMinutes ?? null,
+      escalationChannels: insertSettings.escalationChannels ?? null,
+      email: insertSettings.email ?? null,
+      phone: insertSettings.phone ?? null,
+      timeZone: insertSettings.timeZone ?? "UTC",
+      updatedAt: new Date(),
+    };
+    this.reminderSettings.set(userId, settings);
+    return settings;
+  }
+
+  async getNotifications(userId: string, unreadOnly = false): Promise<Notification[]> {
+    return Array.from(this.notifications.values())
+      .filter(notification =>
+        notification.userId === userId &&
+        notification.channel === "in_app" &&
+        (!unreadOnly || !notification.readAt)
+      )
+      .sort((a, b) => b.id - a.id);
+  }
+
+  async getNotificationsForEntry(scheduleEntryId: number): Promise<Notification[]> {
+    return Array.from(this.notifications.values()).filter(notification => notification.scheduleEntryId === scheduleEntryId);
+  }
+
+  async createNotification(insertNotification: InsertNotification, userId: string): Promise<Notification> {
+    const id = this.currentNotificationId++;
+    const notification: Notification = {
+      ...insertNotification,
+      id,
+      userId,
+      readAt: null,
+      createdAt: new Date(),
+    };
+    this.notifications.set(id, notification);
+    return notification;
+  }
+
+  async markNotificationRead(id: number, userId: string): Promise<Notification | undefined> {
+    const notification = this.notifications.get(id);
+    if (!notification || notification.userId !== userId) return undefined;
+
+    const updatedNotification: Notification = { ...notification, readAt: notification.readAt ?? new Date() };
+    this.notifications.set(id, updatedNotification);
+    return updatedNotification;
+  }
+
+  // Web Push operations
+  async getPushSubscriptions(userId: string): Promise<PushSubscription[]> {
+    return Array.from(this.pushSubscriptions.values()).filter(subscription => subscription.userId === userId);
+  }
+
+  async savePushSubscription(input: PushSubscriptionInput, userAgent: string | null, userId: string): Promise<PushSubscription> {
+    const subscription: PushSubscription = {
+      id: this.currentPushSubscriptionId++,
+      userId,
+      endpoint: input.endpoint,
+      p256dh: input.keys.p256dh,
+      auth: input.keys.auth,
+      userAgent,
+      createdAt: new Date(),
+    };
+    this.pushSubscriptions.set(input.endpoint, subscription);
+    return subscription;
+  }
+
+  async deletePushSubscription(endpoint: string, userId: string): Promise<boolean> {
+    const subscription = this.pushSubscriptions.get(endpoint);
+    if (!subscription || subscription.userId !== userId) return false;
+    return this.pushSubscriptions.delete(endpoint);
+  }
+
+  async getVapidKeys(): Promise<VapidKeys | undefined> {
+    return this.vapidKeys;
+  }
+
+  async saveVapidKeys(keys: VapidKeys): Promise<VapidKeys> {
+    this.vapidKeys = this.vapidKeys ?? keys;
+    return this.vapidKeys;
+  }
+
+  // Background job operations
+  async getJobs(): Promise<Job[]> {
+    return Array.from(this.jobs.values());
+  }
+
+  async ensureJob(name: string, nextRunAt: Date): Promise<void> {
+    if (this.jobs.has(name)) return;
+    this.jobs.set(name, { name, nextRunAt, lockedBy: null, lockedUntil: null, lastRunAt: null, lastStatus: null });
+  }
+
+  async claimJob(name: string, instanceId: string, now: Date, lockedUntil: Date): Promise<Job | undefined> {
+    const job = this.jobs.get(name);
+    if (!job || job.nextRunAt > now || (job.lockedUntil && job.lockedUntil >= now)) return undefined;
+
+    const claimedJob: Job = { ...job, lockedBy: instanceId, lockedUntil };
+    this.jobs.set(name, claimedJob);
+    return claimedJob;
+  }
+
+  async releaseJob(name: string, instanceId: string, status: NonNullable<Job["lastStatus"]>, nextRunAt: Date): Promise<void> {
+    const job = this.jobs.get(name);
+    if (!job || job.lockedBy !== instanceId) return;
+    this.jobs.set(name, { ...job, nextRunAt, lockedBy: null, lockedUntil: null, lastRunAt: new Date(), lastStatus: status });
+  }
+
+  async createJobRun(insertRun: Omit<JobRun, "id">): Promise<JobRun> {
+    const id = this.currentJobRunId++;
+    const run: JobRun = { ...insertRun, id };
+    this.jobRuns.set(id, run);
+    return run;
+  }
+
+  async finishJobRun(id: number, updateRun: Pick<JobRun, "status" | "finishedAt" | "result" | "error">): Promise<JobRun | undefined> {
+    const run = this.jobRuns.get(id);
+    if (!run) return undefined;
+
+    const updatedRun: JobRun = { ...run, ...updateRun };
+    this.jobRuns.set(id, updatedRun);
+    return updatedRun;
+  }
+
+  async getJobRuns(limit: number, jobName?: string): Promise<JobRun[]> {
+    return Array.from(this.jobRuns.values())
+      .filter(run => !jobName || run.jobName === jobName)
+      .sort((a, b) => b.id - a.id)
+      .slice(0, limit);
+  }
+
+  async deleteJobRunsBefore(date: Date): Promise<number> {
+    let deleted = 0;
+    Array.from(this.jobRuns.entries()).forEach(([id, run]) => {
+      if (run.startedAt < date) {
+        this.jobRuns.delete(id);
+        deleted++;
+      }
+    });
+    return deleted;
+  }
+
+  async purgeExpiredSessions(): Promise<number> {
+    return 0; // Sessions live in the session store, not here
+  }
 }
 
 // Database Storage Implementation
+// Rows per statement in bulk writes, well under Postgres's 65535 bind parameters
+// even with every schedule_entries column set
+const BATCH_ROWS = 1000;
+
+function inBatches<T>(items: T[]): T[][] {
+  const batches: T[][] = [];
+  for (let start = 0; start < items.length; start += BATCH_ROWS) {
+    batches.push(items.slice(start, start + BATCH_ROWS));
+  }
+  return batches;
+}
+
+function assertUniqueDoses(entries: InsertScheduleEntry[]) {
+  if (new Set(entries.map(doseKey)).size !== entries.length) {
+    throw new Error("Schedule entries batch has the same dose more than once");
+  }
+}
+
+// The user's entries with the same dose keys as `entries`
+async function findScheduleEntriesByDose(tx: typeof db, entries: InsertScheduleEntry[], userId: string): Promise<Map<string, ScheduleEntry>> {
+  const keys = new Set(entries.map(doseKey));
+  const dates = entries.map(entry => entry.date).sort();
+  const found: ScheduleEntry[] = await tx.select().from(scheduleEntries).where(
+    and(
+      eq(scheduleEntries.userId, userId),
+      inArray(scheduleEntries.foodId, Array.from(new Set(entries.map(entry => entry.foodId)))),
+      gte(scheduleEntries.date, dates[0]),
+      lte(scheduleEntries.date, dates[dates.length - 1])
+    )
+  );
+  return new Map(found.filter(entry => keys.has(doseKey(entry))).map(entry => [doseKey(entry), entry]));
+}
+
+// Bulk upsert inside a transaction: one lookup, batched inserts and one batched update
+async function upsertScheduleEntriesIn(tx: typeof db, insertEntries: InsertScheduleEntry[], userId: string): Promise<UpsertedScheduleEntry[]> {
+  const existingByKey = await findScheduleEntriesByDose(tx, insertEntries, userId);
+
+  const toCreate = insertEntries.filter(entry => !existingByKey.has(doseKey(entry)));
+  const createdByKey = new Map<string, ScheduleEntry>();
+  for (const batch of inBatches(toCreate)) {
+    const created: ScheduleEntry[] = await tx
+      .insert(scheduleEntries)
+      .values(batch.map(entry => ({ ...entry, userId })))
+      .onConflictDoNothing({
+        target: [scheduleEntries.userId, scheduleEntries.foodId, scheduleEntries.date, scheduleEntries.doseSlot],
+      })
+      .returning();
+    created.forEach(entry => createdByKey.set(doseKey(entry), entry));
+  }
+
+  // Doses a concurrent request created since the lookup are compared like existing ones
+  const conflicting = toCreate.filter(entry => !createdByKey.has(doseKey(entry)));
+  if (conflicting.length > 0) {
+    (await findScheduleEntriesByDose(tx, conflicting, userId)).forEach((entry, key) => existingByKey.set(key, entry));
+  }
+
+  const results: UpsertedScheduleEntry[] = [];
+  const updates: ScheduleEntryUpdate[] = [];
+  for (const insertEntry of insertEntries) {
+    const key = doseKey(insertEntry);
+    const created = createdByKey.get(key);
+    const current = existingByKey.get(key)!;
+    if (created) {
+      results.push({ entry: created, outcome: "created" });
+    } else if (!needsRegeneratedFields(current, insertEntry)) {
+      results.push({ entry: current, outcome: "unchanged" });
+    } else {
+      updates.push({ id: current.id, changes: generatedFields(insertEntry) });
+      results.push({ entry: current, outcome: "updated" });
+    }
+  }
+
+  const updatedById = new Map((await updateScheduleEntriesIn(tx, updates, userId)).map(entry => [entry.id, entry]));
+  return results.map(result =>
+    result.outcome === "updated" ? { ...result, entry: updatedById.get(result.entry.id) ?? result.entry } : result
+  );
+}
+
+// Bulk update inside a transaction. Updates that change the same columns share one
+// UPDATE ... FROM (VALUES ...) statement per batch.
+async function updateScheduleEntriesIn(tx: typeof db, updates: ScheduleEntryUpdate[], userId: string): Promise<ScheduleEntry[]> {
+  // Later changes to the same entry win, as they would applied one by one
+  const changesById = new Map<number, Partial<InsertScheduleEntry>>();
+  for (const { id, changes } of updates) {
+    changesById.set(id, { ...changesById.get(id), ...changes });
+  }
+
+  const byColumns = new Map<string, ScheduleEntryUpdate[]>();
+  for (const [id, changes] of Array.from(changesById.entries())) {
+    const columns = (Object.keys(changes) as (keyof InsertScheduleEntry)[])
+      .filter(key => changes[key] !== undefined)
+      .sort()
+      .join();
+    if (columns) byColumns.set(columns, [...(byColumns.get(columns) ?? []), { id, changes }]);
+  }
+
+  for (const [columnList, group] of Array.from(byColumns.entries())) {
+    const keys = columnList.split(',') as (keyof InsertScheduleEntry)[];
+    const names = keys.map(key => sql.identifier(scheduleEntries[key].name));
+    for (const batch of inBatches(group)) {
+      const rows = batch.map(({ id, changes }) => sql`(${sql.join([
+        sql`${id}::integer`,
+        ...keys.map(key => sql`${changes[key] ?? null}::${sql.raw(scheduleEntries[key].getSQLType())}`),
+      ], sql`, `)})`);
+      await tx.execute(sql`
+        update ${scheduleEntries}
+        set ${sql.join(names.map(name => sql`${name} = v.${name}`), sql`, `)}
+        from (values ${sql.join(rows, sql`, `)}) as v(id, ${sql.join(names, sql`, `)})
+        where ${scheduleEntries.id} = v.id and ${scheduleEntries.userId} = ${userId}
+      `);
+    }
+  }
+
+  const ids = Array.from(changesById.keys());
+  const updated: ScheduleEntry[] = [];
+  for (const batch of inBatches(ids)) {
+    updated.push(...await tx.select().from(scheduleEntries).where(
+      and(inArray(scheduleEntries.id, batch), eq(scheduleEntries.userId, userId))
+    ));
+  }
+  const byId = new Map(updated.map(entry => [entry.id, entry]));
+  return ids.flatMap(id => byId.get(id) ?? []);
+}
+
 export class DatabaseStorage implements IStorage {
   // User operations
   async getUserById(id: string): Promise<User | undefined> {
@@ -251,6 +1002,19 @@ export class DatabaseStorage implements IStorage {
     return false;
   }
 
+  async updateFoodLadder(id: number, ladderId: number | null, ladderRung: number | null, userId: string): Promise<Food | undefined> {
+    const [food] = await db
+      .update(foods)
+      .set({ ladderId, ladderRung })
+      .where(and(eq(foods.id, id), eq(foods.userId, userId)))
+      .returning();
+    return food || undefined;
+  }
+
+  async getAllActiveFoods(): Promise<Food[]> {
+    return await db.select().from(foods).where(eq(foods.isActive, true));
+  }
+
   async getScheduleEntries(userId: string, date?: string): Promise<ScheduleEntry[]> {
     if (date) {
       return await db.select().from(scheduleEntries).where(
@@ -273,6 +1037,64 @@ export class DatabaseStorage implements IStorage {
     return entry;
   }
 
+  async upsertScheduleEntry(insertEntry: InsertScheduleEntry, userId: string): Promise<UpsertedScheduleEntry> {
+    const [existing] = await db.select().from(scheduleEntries).where(
+      and(
+        eq(scheduleEntries.userId, userId),
+        eq(scheduleEntries.foodId, insertEntry.foodId),
+        eq(scheduleEntries.date, insertEntry.date),
+        eq(scheduleEntries.doseSlot, insertEntry.doseSlot ?? 0)
+      )
+    );
+
+    if (!existing) {
+      const [entry] = await db
+        .insert(scheduleEntries)
+        .values({ ...insertEntry, userId })
+        .onConflictDoNothing()
+        .returning();
+      // Created by a concurrent request since the lookup, so compare against that one
+      return entry ? { entry, outcome: "created" } : this.upsertScheduleEntry(insertEntry, userId);
+    }
+    if (!needsRegeneratedFields(existing, insertEntry)) {
+      return { entry: existing, outcome: "unchanged" };
+    }
+
+    const [entry] = await db
+      .update(scheduleEntries)
+      .set(generatedFields(insertEntry))
+      .where(eq(scheduleEntries.id, existing.id))
+      .returning();
+    return { entry, outcome: "updated" };
+  }
+
+  async upsertScheduleEntries(insertEntries: InsertScheduleEntry[], userId: string): Promise<UpsertedScheduleEntry[]> {
+    assertUniqueDoses(insertEntries);
+    if (insertEntries.length === 0) return [];
+    return db.transaction((tx: typeof db) => upsertScheduleEntriesIn(tx, insertEntries, userId));
+  }
+
+  async updateScheduleEntries(updates: ScheduleEntryUpdate[], userId: string): Promise<ScheduleEntry[]> {
+    if (updates.length === 0) return [];
+    return db.transaction((tx: typeof db) => updateScheduleEntriesIn(tx, updates, userId));
+  }
+
+  async applyScheduleChanges(changes: ScheduleChanges, userId: string): Promise<UpsertedScheduleEntry[]> {
+    assertUniqueDoses(changes.upserts);
+    return db.transaction(async (tx: typeof db) => {
+      for (const { id, changes: foodChanges } of changes.foodUpdates ?? []) {
+        await tx.update(foods).set(foodChanges).where(and(eq(foods.id, id), eq(foods.userId, userId)));
+      }
+      for (const ids of inBatches(changes.deleteIds)) {
+        await tx.delete(scheduleEntries).where(
+          and(inArray(scheduleEntries.id, ids), eq(scheduleEntries.userId, userId))
+        );
+      }
+      await updateScheduleEntriesIn(tx, changes.updates, userId);
+      return changes.upserts.length > 0 ? upsertScheduleEntriesIn(tx, changes.upserts, userId) : [];
+    });
+  }
+
   async updateScheduleEntry(id: number, updateEntry: Partial<InsertScheduleEntry>, userId: string): Promise<ScheduleEntry | undefined> {
     const [entry] = await db
       .update(scheduleEntries)
@@ -300,6 +1122,346 @@ export class DatabaseStorage implements IStorage {
       and(eq(scheduleEntries.date, date), eq(scheduleEntries.userId, userId))
     );
   }
+
+  async deleteFutureScheduleEntriesForFood(foodId: number, fromDate: string, userId: string): Promise<void> {
+    await db.delete(scheduleEntries).where(
+      and(
+        eq(scheduleEntries.foodId, foodId),
+        eq(scheduleEntries.userId, userId),
+        gte(scheduleEntries.date, fromDate),
+        eq(scheduleEntries.status, "pending")
+      )
+    );
+  }
+
+  async markMissedEntries(now: Date): Promise<number> {
+    // Users without reminder settings keep UTC days, the same default the settings have
+    const userToday = sql`(${now.toISOString()}::timestamptz at time zone coalesce(
+      (select ${reminderSettings.timeZone} from ${reminderSettings} where ${reminderSettings.userId} = ${scheduleEntries.userId}),
+      'UTC'
+    ))::date`;
+    const result = await db
+      .update(scheduleEntries)
+      .set({ status: "missed" })
+      .where(and(eq(scheduleEntries.status, "pending"), lt(scheduleEntries.date, userToday)));
+    return result.rowCount ?? 0;
+  }
+
+  // Ladder operations
+  async getLadders(userId: string): Promise<Ladder[]> {
+    return await db.select().from(ladders).where(
+      and(eq(ladders.isActive, true), eq(ladders.userId, userId))
+    );
+  }
+
+  async getLadder(id: number, userId: string): Promise<Ladder | undefined> {
+    const [ladder] = await db.select().from(ladders).where(
+      and(eq(ladders.id, id), eq(ladders.userId, userId))
+    );
+    return ladder || undefined;
+  }
+
+  async getAllActiveLadders(): Promise<Ladder[]> {
+    return await db.select().from(ladders).where(eq(ladders.isActive, true));
+  }
+
+  async createLadder(insertLadder: { name: string; advanceMode: Ladder["advanceMode"]; rungStartedAt: string }, userId: string): Promise<Ladder> {
+    const [ladder] = await db
+      .insert(ladders)
+      .values({ ...insertLadder, userId })
+      .returning();
+    return ladder;
+  }
+
+  async updateLadder(id: number, updateLadder: Partial<Pick<Ladder, "currentRung" | "rungStartedAt" | "isActive">>, userId: string): Promise<Ladder | undefined> {
+    const [ladder] = await db
+      .update(ladders)
+      .set(updateLadder)
+      .where(and(eq(ladders.id, id), eq(ladders.userId, userId)))
+      .returning();
+    return ladder || undefined;
+  }
+
+  // Protocol template operations
+  async getProtocolTemplates(userId: string): Promise<ProtocolTemplate[]> {
+    return await db.select().from(protocolTemplates).where(eq(protocolTemplates.userId, userId));
+  }
+
+  async createProtocolTemplate(insertTemplate: InsertProtocolTemplate, userId: string): Promise<ProtocolTemplate> {
+    const [template] = await db
+      .insert(protocolTemplates)
+      .values({ ...insertTemplate, userId })
+      .returning();
+    return template;
+  }
+
+  async deleteProtocolTemplate(id: number, userId: string): Promise<boolean> {
+    const result = await db.delete(protocolTemplates).where(
+      and(eq(protocolTemplates.id, id), eq(protocolTemplates.userId, userId))
+    );
+    return (result.rowCount ?? 0) > 0;
+  }
+
+  // Product operations
+  async getProducts(userId: string): Promise<Product[]> {
+    return await db.select().from(products).where(
+      and(eq(products.isActive, true), eq(products.userId, userId))
+    );
+  }
+
+  async getProduct(id: number, userId: string): Promise<Product | undefined> {
+    const [product] = await db.select().from(products).where(
+      and(eq(products.id, id), eq(products.userId, userId))
+    );
+    return product;
+  }
+
+  async createProduct(insertProduct: InsertProduct, userId: string): Promise<Product> {
+    const [product] = await db
+      .insert(products)
+      .values({ ...insertProduct, userId })
+      .returning();
+    return product;
+  }
+
+  async deleteProduct(id: number, userId: string): Promise<boolean> {
+    // Soft delete, foods dosed from the product keep referencing it
+    const [product] = await db
+      .update(products)
+      .set({ isActive: false })
+      .where(and(eq(products.id, id), eq(products.userId, userId)))
+      .returning();
+    return !!product;
+  }
+
+  // Reaction operations
+  async getReactions(userId: string, startDate?: string, endDate?: string): Promise<Reaction[]> {
+    const conditions = [eq(reactions.userId, userId)];
+    if (startDate) conditions.push(gte(reactions.date, startDate));
+    if (endDate) conditions.push(lte(reactions.date, endDate));
+    return await db.select().from(reactions).where(and(...conditions));
+  }
+
+  async getReaction(id: number, userId: string): Promise<Reaction | undefined> {
+    const [reaction] = await db.select().from(reactions).where(
+      and(eq(reactions.id, id), eq(reactions.userId, userId))
+    );
+    return reaction || undefined;
+  }
+
+  async createReaction(insertReaction: InsertReaction & { followUpAction: ReactionAction | null }, userId: string): Promise<Reaction> {
+    const [reaction] = await db
+      .insert(reactions)
+      .values({ ...insertReaction, userId })
+      .returning();
+    return reaction;
+  }
+
+  async updateReaction(id: number, updateReaction: Partial<InsertReaction & { followUpAction: ReactionAction | null }>, userId: string): Promise<Reaction | undefined> {
+    const [reaction] = await db
+      .update(reactions)
+      .set(updateReaction)
+      .where(and(eq(reactions.id, id), eq(reactions.userId, userId)))
+      .returning();
+    return reaction || undefined;
+  }
+
+  async deleteReaction(id: number, userId: string): Promise<boolean> {
+    const result = await db.delete(reactions).where(
+      and(eq(reactions.id, id), eq(reactions.userId, userId))
+    );
+    return (result.rowCount ?? 0) > 0;
+  }
+
+  // Pause operations
+  async getPauses(userId: string): Promise<Pause[]> {
+    return await db.select().from(pauses).where(eq(pauses.userId, userId));
+  }
+
+  async getPause(id: number, userId: string): Promise<Pause | undefined> {
+    const [pause] = await db.select().from(pauses).where(
+      and(eq(pauses.id, id), eq(pauses.userId, userId))
+    );
+    return pause || undefined;
+  }
+
+  async createPause(insertPause: InsertPause, userId: string): Promise<Pause> {
+    const [pause] = await db
+      .insert(pauses)
+      .values({ ...insertPause, userId })
+      .returning();
+    return pause;
+  }
+
+  async updatePause(id: number, updatePause: Partial<InsertPause>, userId: string): Promise<Pause | undefined> {
+    const [pause] = await db
+      .update(pauses)
+      .set(updatePause)
+      .where(and(eq(pauses.id, id), eq(pauses.userId, userId)))
+      .returning();
+    return pause || undefined;
+  }
+
+  async deletePause(id: number, userId: string): Promise<boolean> {
+    const result = await db.delete(pauses).where(
+      and(eq(pauses.id, id), eq(pauses.userId, userId))
+    );
+    return (result.rowCount ?? 0) > 0;
+  }
+
+  // Reminder operations
+  async getReminderSettings(userId: string): Promise<ReminderSettings | undefined> {
+    const [settings] = await db.select().from(reminderSettings).where(eq(reminderSettings.userId, userId));
+    return settings || undefined;
+  }
+
+  async getAllReminderSettings(): Promise<ReminderSettings[]> {
+    return await db.select().from(reminderSettings).where(eq(reminderSettings.enabled, true));
+  }
+
+  async saveReminderSettings(insertSettings: InsertReminderSettings, userId: string): Promise<ReminderSettings> {
+    const [settings] = await db
+      .insert(reminderSettings)
+      .values({ ...insertSettings, userId })
+      .onConflictDoUpdate({
+        target: reminderSettings.userId,
+        set: { ...insertSettings, updatedAt: new Date() },
+      })
+      .returning();
+    return settings;
+  }
+
+  async getNotifications(userId: string, unreadOnly = false): Promise<Notification[]> {
+    return await db.select().from(notifications).where(
+      and(
+        eq(notifications.userId, userId),
+        eq(notifications.channel, "in_app"),
+        unreadOnly ? isNull(notifications.readAt) : undefined
+      )
+    ).orderBy(desc(notifications.id));
+  }
+
+  async getNotificationsForEntry(scheduleEntryId: number): Promise<Notification[]> {
+    return await db.select().from(notifications).where(eq(notifications.scheduleEntryId, scheduleEntryId));
+  }
+
+  async createNotification(insertNotification: InsertNotification, userId: string): Promise<Notification> {
+    const [notification] = await db
+      .insert(notifications)
+      .values({ ...insertNotification, userId })
+      .returning();
+    return notification;
+  }
+
+  async markNotificationRead(id: number, userId: string): Promise<Notification | undefined> {
+    const [notification] = await db
+      .update(notifications)
+      .set({ readAt: new Date() })
+      .where(and(eq(notifications.id, id), eq(notifications.userId, userId)))
+      .returning();
+    return notification || undefined;
+  }
+
+  // Web Push operations
+  async getPushSubscriptions(userId: string): Promise<PushSubscription[]> {
+    return await db.select().from(pushSubscriptions).where(eq(pushSubscriptions.userId, userId));
+  }
+
+  async savePushSubscription(input: PushSubscriptionInput, userAgent: string | null, userId: string): Promise<PushSubscription> {
+    const values = { userId, endpoint: input.endpoint, p256dh: input.keys.p256dh, auth: input.keys.auth, userAgent };
+    const [subscription] = await db
+      .insert(pushSubscriptions)
+      .values(values)
+      .onConflictDoUpdate({ target: pushSubscriptions.endpoint, set: values })
+      .returning();
+    return subscription;
+  }
+
+  async deletePushSubscription(endpoint: string, userId: string): Promise<boolean> {
+    const result = await db.delete(pushSubscriptions).where(
+      and(eq(pushSubscriptions.endpoint, endpoint), eq(pushSubscriptions.userId, userId))
+    );
+    return (result.rowCount ?? 0) > 0;
+  }
+
+  async getVapidKeys(): Promise<VapidKeys | undefined> {
+    const [keys] = await db
+      .select({ publicKey: vapidKeys.publicKey, privateKey: vapidKeys.privateKey })
+      .from(vapidKeys)
+      .orderBy(asc(vapidKeys.id))
+      .limit(1);
+    return keys || undefined;
+  }
+
+  async saveVapidKeys(keys: VapidKeys): Promise<VapidKeys> {
+    // Instances starting together may both insert; every one of them uses the oldest row
+    await db.insert(vapidKeys).values(keys);
+    return (await this.getVapidKeys())!;
+  }
+
+  // Background job operations
+  async getJobs(): Promise<Job[]> {
+    return await db.select().from(jobs);
+  }
+
+  async ensureJob(name: string, nextRunAt: Date): Promise<void> {
+    await db.insert(jobs).values({ name, nextRunAt }).onConflictDoNothing();
+  }
+
+  async claimJob(name: string, instanceId: string, now: Date, lockedUntil: Date): Promise<Job | undefined> {
+    // A single conditional update, so only one instance can win the claim
+    const [job] = await db
+      .update(jobs)
+      .set({ lockedBy: instanceId, lockedUntil })
+      .where(and(
+        eq(jobs.name, name),
+        lte(jobs.nextRunAt, now),
+        or(isNull(jobs.lockedUntil), lt(jobs.lockedUntil, now))
+      ))
+      .returning();
+    return job || undefined;
+  }
+
+  async releaseJob(name: string, instanceId: string, status: NonNullable<Job["lastStatus"]>, nextRunAt: Date): Promise<void> {
+    await db
+      .update(jobs)
+      .set({ nextRunAt, lockedBy: null, lockedUntil: null, lastRunAt: new Date(), lastStatus: status })
+      .where(and(eq(jobs.name, name), eq(jobs.lockedBy, instanceId)));
+  }
+
+  async createJobRun(insertRun: Omit<JobRun, "id">): Promise<JobRun> {
+    const [run] = await db
+      .insert(jobRuns)
+      .values(insertRun)
+      .returning();
+    return run;
+  }
+
+  async finishJobRun(id: number, updateRun: Pick<JobRun, "status" | "finishedAt" | "result" | "error">): Promise<JobRun | undefined> {
+    const [run] = await db
+      .update(jobRuns)
+      .set(updateRun)
+      .where(eq(jobRuns.id, id))
+      .returning();
+    return run || undefined;
+  }
+
+  async getJobRuns(limit: number, jobName?: string): Promise<JobRun[]> {
+    return await db.select().from(jobRuns)
+      .where(jobName ? eq(jobRuns.jobName, jobName) : undefined)
+      .orderBy(desc(jobRuns.id))
+      .limit(limit);
+  }
+
+  async deleteJobRunsBefore(date: Date): Promise<number> {
+    const result = await db.delete(jobRuns).where(lt(jobRuns.startedAt, date));
+    return result.rowCount ?? 0;
+  }
+
+  async purgeExpiredSessions(now: Date): Promise<number> {
+    const result = await db.delete(sessions).where(lt(sessions.expire, now));
+    return result.rowCount ?? 0;
+  }
 }
 
 // Use DatabaseStorage if DATABASE_URL is available, otherwise use MemStorage
@@ -0,0 +1,44 @@
+import type { Food, ScheduleEntry } from "./schema";
+import { getTimeWindow, toMinutes } from "./time-window";
+
+export const LATE_AFTER_MINUTES = 60; // Grace period after the scheduled time
+
+export interface DoseTiming {
+  minutesLate: number | null; // Against the entry's calculated time; negative when early
+  late: boolean;
+  outsideWindow: boolean; // Taken on another day or outside the food's start–end time
+}
+
+// How the time a dose was taken compares to when it was due. `takenAt` is read in
+// local time, the same clock the food's times are entered in.
+export function getDoseTiming(
+  entry: Pick<ScheduleEntry, 'date' | 'calculatedTime'>,
+  food: Pick<Food, 'startTime' | 'endTime'>,
+  takenAt: Date
+): DoseTiming {
+  const takenDate = `${takenAt.getFullYear()}-${String(takenAt.getMonth() + 1).padStart(2, '0')}-${String(takenAt.getDate()).padStart(2, '0')}`;
+  const dayOffset = Math.round(
+    (new Date(takenDate + 'T00:00:00Z').getTime() - new Date(entry.date + 'T00:00:00Z').getTime()) / (24 * 60 * 60 * 1000)
+  );
+  const takenMinutes = takenAt.getHours() * 60 + takenAt.getMinutes();
+
+  const minutesLate = entry.calculatedTime
+    ? dayOffset * 24 * 60 + takenMinutes - toMinutes(entry.calculatedTime)
+    : null;
+  const window = getTimeWindow(food);
+  const outsideWindow = dayOffset !== 0 ||
+    (!!window && (takenMinutes < window.from || takenMinutes > window.to));
+
+  return {
+    minutesLate,
+    late: dayOffset > 0 || (minutesLate !== null && minutesLate > LATE_AFTER_MINUTES),
+    outsideWindow,
+  };
+}
+
+// "1h 20m" style duration
+export function formatDelay(minutes: number): string {
+  const hours = Math.floor(Math.abs(minutes) / 60);
+  const rest = Math.abs(minutes) % 60;
+  return hours > 0 ? `${hours}h${rest > 0 ? ` ${rest}m` : ''}` : `${rest}m`;
+}
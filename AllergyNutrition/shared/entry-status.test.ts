@@ -0,0 +1,71 @@
+import { describe, expect, it } from "vitest";
+import type { ScheduleEntry } from "./schema";
+import { calculateAdherence, withStatus } from "./entry-status";
+
+const now = new Date("2026-10-19T09:30:00.000Z");
+
+function entry(date: string, status: ScheduleEntry["status"]): ScheduleEntry {
+  return {
+    id: 1,
+    userId: "user",
+    foodId: 1,
+    date,
+    status,
+    isCompleted: status === "completed" || status === "partial",
+    actualAmount: null,
+    skipReason: null,
+    completedAt: null,
+    calculatedAmount: null,
+    proteinMg: null,
+    calculatedTime: null,
+    occurrenceNumber: null,
+    stepNumber: null,
+    doseSlot: 0,
+    adjustmentNote: null,
+    adjustedForMissedDays: null,
+  };
+}
+
+describe("withStatus", () => {
+  it("marks a ticked dose completed and stamps the time", () => {
+    expect(withStatus({ isCompleted: true }, now)).toMatchObject({
+      status: "completed",
+      isCompleted: true,
+      completedAt: now.toISOString(),
+    });
+  });
+
+  it("keeps details that belong to the status and clears the rest", () => {
+    expect(withStatus({ status: "skipped", skipReason: "Fever", actualAmount: "1 g" }, now)).toMatchObject({
+      isCompleted: false,
+      completedAt: null,
+      skipReason: "Fever",
+      actualAmount: null,
+    });
+    expect(withStatus({ status: "partial", actualAmount: "1/2 tsp" }, now)).toMatchObject({
+      isCompleted: true,
+      actualAmount: "1/2 tsp",
+    });
+  });
+
+  it("leaves updates without a status alone", () => {
+    expect(withStatus({ calculatedTime: "08:00" }, now)).toEqual({ calculatedTime: "08:00" });
+  });
+});
+
+describe("calculateAdherence", () => {
+  it("counts past pending doses as missed and ignores upcoming ones", () => {
+    const adherence = calculateAdherence([
+      entry("2026-10-16", "completed"),
+      entry("2026-10-17", "partial"),
+      entry("2026-10-18", "pending"),
+      entry("2026-10-19", "skipped"),
+      entry("2026-10-20", "pending"),
+    ], "2026-10-19");
+    expect(adherence).toEqual({ due: 4, completed: 1, partial: 1, skipped: 1, missed: 1, percent: 50 });
+  });
+
+  it("has no percentage before anything is due", () => {
+    expect(calculateAdherence([entry("2026-10-20", "pending")], "2026-10-19").percent).toBeNull();
+  });
+});
@@ -0,0 +1,66 @@
+import type { EntryStatus, InsertScheduleEntry, ScheduleEntry } from "./schema";
+
+export const entryStatusLabels: Record<EntryStatus, string> = {
+  pending: "Not done yet",
+  completed: "Done",
+  partial: "Partly eaten",
+  skipped: "Skipped",
+  missed: "Missed",
+};
+
+// Prefix shown before the food name on the calendar
+export const entryStatusIcons: Record<EntryStatus, string> = {
+  pending: "",
+  completed: "✓ ",
+  partial: "◐ ",
+  skipped: "⊘ ",
+  missed: "✗ ",
+};
+
+// Partial doses still count as a dose taken, e.g. for missed-dose streaks
+export function isDoseTaken(status: EntryStatus): boolean {
+  return status === "completed" || status === "partial";
+}
+
+// Keep status and isCompleted in step whichever one an update sets, and drop the
+// details that only belong to the other statuses. A dose marked taken without a
+// time given (e.g. a calendar tick) is stamped with `now`.
+export function withStatus(update: Partial<InsertScheduleEntry>, now: Date = new Date()): Partial<InsertScheduleEntry> {
+  const status = update.status ?? (update.isCompleted === undefined ? undefined : update.isCompleted ? "completed" : "pending");
+  if (!status) return update;
+
+  const taken = isDoseTaken(status);
+  return {
+    ...update,
+    status,
+    isCompleted: taken,
+    completedAt: taken ? update.completedAt ?? now.toISOString() : null,
+    actualAmount: status === "partial" ? update.actualAmount ?? null : null,
+    skipReason: status === "skipped" ? update.skipReason ?? null : null,
+  };
+}
+
+export interface Adherence {
+  due: number;
+  completed: number;
+  partial: number;
+  skipped: number;
+  missed: number;
+  percent: number | null; // Doses taken out of doses due; null when nothing was due yet
+}
+
+// Adherence over entries due before `today`, plus any already marked today. Past
+// entries the nightly pass hasn't reached yet count as missed.
+export function calculateAdherence(entries: ScheduleEntry[], today: string): Adherence {
+  const adherence: Adherence = { due: 0, completed: 0, partial: 0, skipped: 0, missed: 0, percent: null };
+  for (const entry of entries) {
+    const status = entry.status === "pending" && entry.date < today ? "missed" : entry.status;
+    if (status === "pending") continue;
+    adherence.due++;
+    adherence[status]++;
+  }
+  if (adherence.due > 0) {
+    adherence.percent = Math.round(((adherence.completed + adherence.partial) / adherence.due) * 100);
+  }
+  return adherence;
+}
@@ -0,0 +1,48 @@
+import type { Food, ScheduleEntry } from "./schema";
+
+// OIT protocols ask for one to two hours of observation and rest after each dose
+export const DEFAULT_OBSERVATION_MINUTES = 120;
+
+export const defaultRestRules = ["No exercise", "No hot baths or showers", "No naps"];
+
+// Finished timers are only asked about for this long, so old doses don't prompt
+export const SYMPTOM_CHECK_HOURS = 12;
+
+export function getObservationMinutes(food: Pick<Food, 'observationMinutes'>): number {
+  return food.observationMinutes ?? DEFAULT_OBSERVATION_MINUTES;
+}
+
+export function getRestRules(food: Pick<Food, 'restRules'>): string[] {
+  return food.restRules ?? defaultRestRules;
+}
+
+export interface Observation {
+  entry: ScheduleEntry;
+  food: Food;
+  endsAt: number; // Epoch ms
+}
+
+// Observation periods from doses taken, counted from when each dose was taken. Active
+// ones end after `now`; finished ones ended within the symptom check window.
+export function getObservations(entries: ScheduleEntry[], foods: Food[], now: number): { active: Observation[]; finished: Observation[] } {
+  const active: Observation[] = [];
+  const finished: Observation[] = [];
+
+  for (const entry of entries) {
+    if (!entry.isCompleted || !entry.completedAt) continue;
+    const food = foods.find(f => f.id === entry.foodId);
+    if (!food || getObservationMinutes(food) === 0) continue;
+
+    const endsAt = new Date(entry.completedAt).getTime() + getObservationMinutes(food) * 60 * 1000;
+    if (endsAt > now) {
+      active.push({ entry, food, endsAt });
+    } else if (now - endsAt < SYMPTOM_CHECK_HOURS * 60 * 60 * 1000) {
+      finished.push({ entry, food, endsAt });
+    }
+  }
+
+  return {
+    active: active.sort((a, b) => a.endsAt - b.endsAt),
+    finished: finished.sort((a, b) => a.endsAt - b.endsAt),
+  };
+}
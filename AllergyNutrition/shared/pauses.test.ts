@@ -0,0 +1,40 @@
+import { describe, expect, it } from "vitest";
+import type { Pause } from "./schema";
+import { findPause, pauseCovers } from "./pauses";
+
+function pause(overrides: Partial<Pause>): Pause {
+  return {
+    id: 1,
+    userId: "user",
+    foodId: null,
+    reason: "illness",
+    startDate: "2026-10-10",
+    endDate: null,
+    note: null,
+    createdAt: null,
+    ...overrides,
+  };
+}
+
+describe("pauseCovers", () => {
+  it("covers its start and end dates", () => {
+    const trip = pause({ endDate: "2026-10-12" });
+    expect(pauseCovers(trip, "2026-10-09")).toBe(false);
+    expect(pauseCovers(trip, "2026-10-10")).toBe(true);
+    expect(pauseCovers(trip, "2026-10-12")).toBe(true);
+    expect(pauseCovers(trip, "2026-10-13")).toBe(false);
+  });
+
+  it("runs until resumed without an end date", () => {
+    expect(pauseCovers(pause({}), "2027-01-01")).toBe(true);
+  });
+});
+
+describe("findPause", () => {
+  it("finds whole-account pauses and the food's own, not other foods'", () => {
+    const pauses = [pause({ id: 1, foodId: 2 }), pause({ id: 2, startDate: "2026-11-01" })];
+    expect(findPause(pauses, 2, "2026-10-15")?.id).toBe(1);
+    expect(findPause(pauses, 3, "2026-10-15")).toBeUndefined();
+    expect(findPause(pauses, 3, "2026-11-02")?.id).toBe(2);
+  });
+});
@@ -0,0 +1,18 @@
+import type { Pause } from "./schema";
+
+export const pauseReasonLabels: Record<Pause["reason"], string> = {
+  illness: "Illness",
+  travel: "Travel",
+  clinician_hold: "Clinician hold",
+  other: "Other",
+};
+
+// Whether the pause covers `date` (YYYY-MM-DD). Open-ended pauses run until resumed.
+export function pauseCovers(pause: Pause, date: string): boolean {
+  return date >= pause.startDate && (!pause.endDate || date <= pause.endDate);
+}
+
+// The pause keeping `foodId` from being dosed on `date`, either its own or one for the whole account
+export function findPause(pauses: Pause[], foodId: number, date: string): Pause | undefined {
+  return pauses.find(pause => (pause.foodId === null || pause.foodId === foodId) && pauseCovers(pause, date));
+}
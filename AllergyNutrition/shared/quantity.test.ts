@@ -0,0 +1,46 @@
+import { describe, expect, it } from "vitest";
+import { convertQuantity, formatQuantity, parseQuantity, productAmountForProtein, toHouseholdMeasure } from "./quantity";
+
+describe("parseQuantity", () => {
+  it("reads decimals, fractions and mixed numbers", () => {
+    expect(parseQuantity("0.5 teaspoon")).toEqual({ value: 0.5, unit: "tsp" });
+    expect(parseQuantity("1/4 cup")).toEqual({ value: 0.25, unit: "cup" });
+    expect(parseQuantity("1 1/2 tbsp")).toEqual({ value: 1.5, unit: "tbsp" });
+  });
+
+  it("returns null for units it can't convert", () => {
+    expect(parseQuantity("1 slice")).toBeNull();
+    expect(parseQuantity("a pinch")).toBeNull();
+  });
+});
+
+describe("formatQuantity", () => {
+  it("writes household measures as fractions", () => {
+    expect(formatQuantity({ value: 1.5, unit: "tbsp" })).toBe("1 1/2 tbsp");
+    expect(formatQuantity({ value: 0.25, unit: "tsp" })).toBe("1/4 tsp");
+  });
+
+  it("keeps metric amounts as decimals", () => {
+    expect(formatQuantity({ value: 12.345, unit: "mg" })).toBe("12.35 mg");
+  });
+});
+
+describe("convertQuantity", () => {
+  it("converts within a dimension", () => {
+    expect(convertQuantity({ value: 3, unit: "tsp" }, "tbsp").value).toBeCloseTo(1);
+  });
+});
+
+describe("toHouseholdMeasure", () => {
+  it("picks the largest measure that reads as at least one", () => {
+    expect(toHouseholdMeasure(1500, ["mg"]).unit).toBe("mg");
+    expect(toHouseholdMeasure(1500, ["g", "mg"])).toEqual({ value: 1.5, unit: "g" });
+  });
+});
+
+describe("productAmountForProtein", () => {
+  it("works out how much product holds the protein", () => {
+    // 300 mg of protein from a 25% protein powder is 1.2 g of powder
+    expect(productAmountForProtein(300, 25)).toEqual({ value: 1.2, unit: "g" });
+  });
+});
@@ -0,0 +1,91 @@
+import { unitConversions, type Quantity, type QuantityUnit } from "./schema";
+
+// Spellings caregivers use for each unit
+const UNIT_ALIASES: Record<string, QuantityUnit> = {
+  tsp: "tsp", teaspoon: "tsp", teaspoons: "tsp",
+  tbsp: "tbsp", tablespoon: "tbsp", tablespoons: "tbsp",
+  cup: "cup", cups: "cup",
+  ml: "ml", milliliter: "ml", milliliters: "ml", millilitre: "ml", millilitres: "ml",
+  g: "g", gram: "g", grams: "g",
+  mg: "mg", milligram: "mg", milligrams: "mg",
+  piece: "piece", pieces: "piece", serving: "piece", servings: "piece",
+};
+
+// Units a caregiver can measure out at home, largest first
+const HOUSEHOLD_VOLUME_UNITS: QuantityUnit[] = ["cup", "tbsp", "tsp"];
+const MIN_CUP_FRACTION = 0.25; // Smaller amounts read better in tablespoons
+const MEASURE_FRACTION = 8; // Household measures are rounded to the nearest 1/8
+
+// Parse amounts like "0.5 teaspoon", "1 1/2 tbsp" or "1/4 cup". Returns null for
+// units that can't be converted, e.g. "1 slice".
+export function parseQuantity(amount: string): Quantity | null {
+  const match = amount.trim().toLowerCase().match(/^(\d+(?:\.\d+)?)?(?:\s*(\d+)\/(\d+))?\s*([a-z]+)/);
+  if (!match || (!match[1] && !match[2])) return null;
+
+  const unit = UNIT_ALIASES[match[4]];
+  if (!unit) return null;
+
+  let value = match[1] ? parseFloat(match[1]) : 0;
+  if (match[2] && Number(match[3]) > 0) {
+    value += Number(match[2]) / Number(match[3]);
+  }
+  return { value, unit };
+}
+
+export function toBaseValue(quantity: Quantity): number {
+  return quantity.value * unitConversions[quantity.unit].toBase;
+}
+
+export function canConvert(from: QuantityUnit, to: QuantityUnit): boolean {
+  return unitConversions[from].dimension === unitConversions[to].dimension;
+}
+
+export function convertQuantity(quantity: Quantity, unit: QuantityUnit): Quantity {
+  return { value: toBaseValue(quantity) / unitConversions[unit].toBase, unit };
+}
+
+// "1 1/2" style text for household measures; tiny amounts keep their decimals
+function formatMeasure(value: number): string {
+  const eighths = Math.round(value * MEASURE_FRACTION);
+  if (eighths === 0) return String(parseFloat(value.toFixed(2)));
+
+  const whole = Math.floor(eighths / MEASURE_FRACTION);
+  let numerator = eighths % MEASURE_FRACTION;
+  let denominator = MEASURE_FRACTION;
+  while (numerator > 0 && numerator % 2 === 0) {
+    numerator /= 2;
+    denominator /= 2;
+  }
+
+  if (numerator === 0) return String(whole);
+  return whole > 0 ? `${whole} ${numerator}/${denominator}` : `${numerator}/${denominator}`;
+}
+
+export function formatQuantity(quantity: Quantity): string {
+  const value = quantity.unit === 'ml' || quantity.unit === 'g' || quantity.unit === 'mg'
+    ? String(parseFloat(quantity.value.toFixed(2)))
+    : formatMeasure(quantity.value);
+  return `${value} ${quantity.unit}`;
+}
+
+// Render a base-unit value in a unit the caregiver can measure. `units` are the
+// units the food's amounts were entered in; household volumes are chosen freely.
+export function toHouseholdMeasure(baseValue: number, units: QuantityUnit[]): Quantity {
+  const dimension = unitConversions[units[0]].dimension;
+  const usesHouseholdVolume = units.some(unit => HOUSEHOLD_VOLUME_UNITS.includes(unit));
+  const candidates = dimension === 'volume' && usesHouseholdVolume
+    ? HOUSEHOLD_VOLUME_UNITS
+    : Array.from(new Set(units)).sort((a, b) => unitConversions[b].toBase - unitConversions[a].toBase);
+
+  const unit = candidates.find(candidate => {
+    const value = baseValue / unitConversions[candidate].toBase;
+    return candidate === 'cup' ? value >= MIN_CUP_FRACTION : value >= 1;
+  }) ?? candidates[candidates.length - 1];
+
+  return { value: baseValue / unitConversions[unit].toBase, unit };
+}
+
+// Amount of a product that contains `proteinMg` of allergen protein, in g or mg
+export function productAmountForProtein(proteinMg: number, proteinPercent: number): Quantity {
+  return toHouseholdMeasure(proteinMg / (proteinPercent / 100), ["g", "mg"]);
+}
@@ -0,0 +1,17 @@
+import { describe, expect, it } from "vitest";
+import { gradeReaction } from "./reaction-grading";
+
+describe("gradeReaction", () => {
+  it("is mild when nothing was selected", () => {
+    expect(gradeReaction({})).toBe("mild");
+  });
+
+  it("takes the most severe answer across organ systems", () => {
+    expect(gradeReaction({ skin: "localized", gut: "vomit" })).toBe("moderate");
+    expect(gradeReaction({ skin: "widespread", circulation: "yes" })).toBe("severe");
+  });
+
+  it("ignores answers that don't match an option", () => {
+    expect(gradeReaction({ skin: "unknown", breathing: "none" })).toBe("mild");
+  });
+});
@@ -0,0 +1,101 @@
+import type { Reaction, ReactionAction, ReactionActionMap } from "./schema";
+
+type Severity = Reaction["severity"];
+
+interface GradingOption {
+  key: string;
+  label: string;
+  grade: Severity | null; // null when the organ system wasn't involved
+}
+
+interface GradingQuestion {
+  key: string;
+  system: string;
+  question: string;
+  options: GradingOption[];
+}
+
+// Guided questionnaire, one question per organ system. The reaction's grade is the
+// most severe answer, following organ-system based food challenge grading.
+export const gradingQuestions: GradingQuestion[] = [
+  {
+    key: "skin",
+    system: "Skin",
+    question: "Any itching, hives or swelling on the skin?",
+    options: [
+      { key: "none", label: "No", grade: null },
+      { key: "localized", label: "A few hives or itching around the mouth", grade: "mild" },
+      { key: "widespread", label: "Hives or swelling on much of the body", grade: "moderate" },
+    ],
+  },
+  {
+    key: "mouth",
+    system: "Mouth and throat",
+    question: "Any symptoms in the mouth or throat?",
+    options: [
+      { key: "none", label: "No", grade: null },
+      { key: "itchy", label: "Itchy or tingling mouth", grade: "mild" },
+      { key: "lips", label: "Swollen lips or tongue", grade: "moderate" },
+      { key: "throat", label: "Throat tightness, hoarse voice or trouble swallowing", grade: "severe" },
+    ],
+  },
+  {
+    key: "gut",
+    system: "Stomach",
+    question: "Any stomach symptoms?",
+    options: [
+      { key: "none", label: "No", grade: null },
+      { key: "ache", label: "Mild stomach ache or nausea", grade: "mild" },
+      { key: "vomit", label: "Vomited once or diarrhea", grade: "moderate" },
+      { key: "repeated", label: "Repeated vomiting or severe pain", grade: "severe" },
+    ],
+  },
+  {
+    key: "breathing",
+    system: "Breathing",
+    question: "Any nose or breathing symptoms?",
+    options: [
+      { key: "none", label: "No", grade: null },
+      { key: "nose", label: "Runny nose or sneezing", grade: "mild" },
+      { key: "cough", label: "Repeated cough or mild wheeze", grade: "moderate" },
+      { key: "distress", label: "Trouble breathing or persistent wheeze", grade: "severe" },
+    ],
+  },
+  {
+    key: "circulation",
+    system: "Circulation",
+    question: "Pale, floppy, dizzy or fainting?",
+    options: [
+      { key: "none", label: "No", grade: null },
+      { key: "yes", label: "Yes", grade: "severe" },
+    ],
+  },
+];
+
+const SEVERITY_ORDER: Severity[] = ["mild", "moderate", "severe"];
+
+// Grade from questionnaire answers (question key → option key). Mild when nothing was selected.
+export function gradeReaction(answers: Record<string, string>): Severity {
+  let grade: Severity = "mild";
+  for (const question of gradingQuestions) {
+    const option = question.options.find(o => o.key === answers[question.key]);
+    if (option?.grade && SEVERITY_ORDER.indexOf(option.grade) > SEVERITY_ORDER.indexOf(grade)) {
+      grade = option.grade;
+    }
+  }
+  return grade;
+}
+
+// Used for foods without their own reaction actions
+export const defaultReactionActions: ReactionActionMap = {
+  mild: "repeat",
+  moderate: "step_down",
+  severe: "call_doctor",
+};
+
+export const reactionActionLabels: Record<ReactionAction, string> = {
+  repeat: "Repeat the same dose",
+  hold: "Hold the next dose",
+  step_down: "Step down one dose",
+  call_doctor: "Call the doctor",
+};
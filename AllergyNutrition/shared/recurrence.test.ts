@@ -0,0 +1,51 @@
+import { describe, expect, it } from "vitest";
+import { describeRecurrence, occursOn, recurrenceFromFrequency } from "./recurrence";
+
+describe("recurrenceFromFrequency", () => {
+  it("reads the preset labels", () => {
+    expect(recurrenceFromFrequency("Every day")).toEqual({ unit: "day", interval: 1, dosesPerDay: 1 });
+    expect(recurrenceFromFrequency("Twice daily")).toEqual({ unit: "day", interval: 1, dosesPerDay: 2 });
+    expect(recurrenceFromFrequency("Every 3 days")).toEqual({ unit: "day", interval: 3, dosesPerDay: 1 });
+  });
+
+  it("falls back to every day for text it doesn't recognise", () => {
+    expect(recurrenceFromFrequency("whenever")).toEqual({ unit: "day", interval: 1, dosesPerDay: 1 });
+  });
+});
+
+describe("describeRecurrence", () => {
+  it("uses the preset label when the rule matches one", () => {
+    expect(describeRecurrence({ unit: "week", interval: 1, weekdays: [1, 3, 5], dosesPerDay: 1 })).toBe("3 times a week");
+  });
+
+  it("describes rules without a preset", () => {
+    expect(describeRecurrence({ unit: "day", interval: 4, dosesPerDay: 1 })).toBe("Every 4 days");
+  });
+});
+
+describe("occursOn", () => {
+  it("counts day intervals from the start date", () => {
+    const rule = { unit: "day" as const, interval: 2, dosesPerDay: 1 };
+    expect(occursOn(rule, "2026-10-01", "2026-10-01")).toBe(true);
+    expect(occursOn(rule, "2026-10-01", "2026-10-02")).toBe(false);
+    expect(occursOn(rule, "2026-10-01", "2026-10-03")).toBe(true);
+  });
+
+  it("never occurs before the start date", () => {
+    expect(occursOn({ unit: "day", interval: 1, dosesPerDay: 1 }, "2026-10-01", "2026-09-30")).toBe(false);
+  });
+
+  it("occurs on the chosen weekdays", () => {
+    // 2026-10-05 is a Monday
+    const rule = { unit: "week" as const, interval: 1, weekdays: [1, 4], dosesPerDay: 1 };
+    expect(occursOn(rule, "2026-10-05", "2026-10-05")).toBe(true);
+    expect(occursOn(rule, "2026-10-05", "2026-10-06")).toBe(false);
+    expect(occursOn(rule, "2026-10-05", "2026-10-08")).toBe(true);
+  });
+
+  it("skips the weeks in between for longer intervals", () => {
+    const rule = { unit: "week" as const, interval: 2, dosesPerDay: 1 };
+    expect(occursOn(rule, "2026-10-05", "2026-10-12")).toBe(false);
+    expect(occursOn(rule, "2026-10-05", "2026-10-19")).toBe(true);
+  });
+});
@@ -0,0 +1,111 @@
+import type { Food, RecurrenceRule } from "./schema";
+
+const DAY_MS = 1000 * 60 * 60 * 24;
+const WEEKDAY_LABELS = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
+
+// Frequency options offered in the food form, each backed by a structured rule
+export const frequencyPresets: { label: string; rule: RecurrenceRule }[] = [
+  { label: "Every day", rule: { unit: "day", interval: 1, dosesPerDay: 1 } },
+  { label: "2 times a week", rule: { unit: "week", interval: 1, weekdays: [2, 5], dosesPerDay: 1 } },
+  { label: "3 times a week", rule: { unit: "week", interval: 1, weekdays: [1, 3, 5], dosesPerDay: 1 } },
+  { label: "4 times a week", rule: { unit: "week", interval: 1, weekdays: [1, 2, 4, 5], dosesPerDay: 1 } },
+  { label: "5 times a week", rule: { unit: "week", interval: 1, weekdays: [1, 2, 3, 4, 5], dosesPerDay: 1 } },
+  { label: "6 times a week", rule: { unit: "week", interval: 1, weekdays: [1, 2, 3, 4, 5, 6], dosesPerDay: 1 } },
+  { label: "Once a week", rule: { unit: "week", interval: 1, dosesPerDay: 1 } },
+  { label: "Every 2 days", rule: { unit: "day", interval: 2, dosesPerDay: 1 } },
+  { label: "Every 3 days", rule: { unit: "day", interval: 3, dosesPerDay: 1 } },
+  { label: "Twice daily", rule: { unit: "day", interval: 1, dosesPerDay: 2 } },
+];
+
+// Parse a legacy free-text frequency (foods created before recurrence rules existed)
+export function recurrenceFromFrequency(frequency: string): RecurrenceRule {
+  const normalized = frequency.trim().toLowerCase();
+
+  const preset = frequencyPresets.find(p => p.label.toLowerCase() === normalized);
+  if (preset) return preset.rule;
+
+  if (normalized === 'daily' || normalized === 'every day') {
+    return { unit: "day", interval: 1, dosesPerDay: 1 };
+  }
+  if (normalized === 'weekly' || normalized === 'once a week') {
+    return { unit: "week", interval: 1, dosesPerDay: 1 };
+  }
+  if (normalized.includes('twice daily') || normalized.includes('twice a day') || normalized.includes('2 times a day')) {
+    return { unit: "day", interval: 1, dosesPerDay: 2 };
+  }
+  if (normalized.includes('times per week') || normalized.includes('x week') || normalized.includes('times a week')) {
+    const timesMatch = normalized.match(/(\d+)/);
+    const times = timesMatch ? parseInt(timesMatch[1]) : 3;
+    const weekPreset = frequencyPresets.find(p => p.label === `${times} times a week`);
+    if (weekPreset) return weekPreset.rule;
+    return times >= 7
+      ? { unit: "day", interval: 1, dosesPerDay: 1 }
+      : { unit: "week", interval: 1, dosesPerDay: 1 };
+  }
+  if (normalized.includes('every other day')) {
+    return { unit: "day", interval: 2, dosesPerDay: 1 };
+  }
+
+  const everyMatch = normalized.match(/every (\d+) (day|week)s?/);
+  if (everyMatch) {
+    return { unit: everyMatch[2] as "day" | "week", interval: parseInt(everyMatch[1]), dosesPerDay: 1 };
+  }
+
+  return { unit: "day", interval: 1, dosesPerDay: 1 };
+}
+
+// Structured rule for a food, falling back to its legacy frequency text
+export function getRecurrence(food: Pick<Food, 'frequency' | 'recurrence'>): RecurrenceRule {
+  return food.recurrence ?? recurrenceFromFrequency(food.frequency);
+}
+
+// Human readable label, used as the food's frequency text
+export function describeRecurrence(rule: RecurrenceRule): string {
+  const preset = frequencyPresets.find(p =>
+    p.rule.unit === rule.unit &&
+    p.rule.interval === rule.interval &&
+    p.rule.dosesPerDay === rule.dosesPerDay &&
+    (p.rule.weekdays ?? []).join(',') === (rule.weekdays ?? []).join(',')
+  );
+  if (preset) return preset.label;
+
+  let label: string;
+  if (rule.unit === 'day') {
+    label = rule.interval === 1 ? 'Every day' : `Every ${rule.interval} days`;
+  } else {
+    label = rule.interval === 1 ? 'Every week' : `Every ${rule.interval} weeks`;
+    if (rule.weekdays?.length) {
+      label += ` on ${[...rule.weekdays].sort((a, b) => a - b).map(d => WEEKDAY_LABELS[d]).join(', ')}`;
+    }
+  }
+
+  if (rule.dosesPerDay > 1) {
+    label += `, ${rule.dosesPerDay} doses a day`;
+  }
+  return label;
+}
+
+// Whether the rule schedules a dose on `date`, anchored at `startDate` (both YYYY-MM-DD)
+export function occursOn(rule: RecurrenceRule, startDate: string, date: string): boolean {
+  const start = new Date(startDate + 'T00:00:00.000Z');
+  const current = new Date(date + 'T00:00:00.000Z');
+  const daysDiff = Math.round((current.getTime() - start.getTime()) / DAY_MS);
+
+  if (daysDiff < 0) return false;
+
+  if (rule.unit === 'day') {
+    return daysDiff % rule.interval === 0;
+  }
+
+  // Weeks are counted Sunday to Saturday, starting with the week containing the start date
+  const weeksDiff = Math.floor((daysDiff + start.getUTCDay()) / 7);
+  if (weeksDiff % rule.interval !== 0) return false;
+
+  const weekdays = rule.weekdays?.length ? rule.weekdays : [start.getUTCDay()];
+  return weekdays.includes(current.getUTCDay());
+}
+
+// "Dose 1 of 2" style label for foods given more than once a day
+export function doseSlotLabel(doseSlot: number, dosesPerDay: number): string | null {
+  return dosesPerDay > 1 ? `Dose ${doseSlot + 1} of ${dosesPerDay}` : null;
+}
@@ -1,5 +1,5 @@
 import { sql } from 'drizzle-orm';
-import { pgTable, text, serial, integer, boolean, date, varchar, timestamp, index, jsonb } from "drizzle-orm/pg-core";
+import { pgTable, text, serial, integer, boolean, date, varchar, timestamp, index, uniqueIndex, jsonb, real } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
 
@@ -14,6 +14,75 @@ export const sessions = pgTable(
   (table) => [index("IDX_session_expire").on(table.expire)],
 );
 
+// Structured recurrence for a food's dosing schedule
+export const recurrenceRuleSchema = z.object({
+  unit: z.enum(["day", "week"]),
+  interval: z.number().int().min(1).max(52), // every N days or every N weeks
+  weekdays: z.array(z.number().int().min(0).max(6)).max(7).optional(), // 0 = Sunday, only used with "week"
+  dosesPerDay: z.number().int().min(1).max(4),
+});
+
+export type RecurrenceRule = z.infer<typeof recurrenceRuleSchema>;
+
+// Per-dose settings when a food is given more than once a day
+export const doseSlotSchema = z.object({
+  time: z.string().regex(/^\d{2}:\d{2}$/).nullish(), // HH:MM, defaults to spacing doses 12 hours across the day
+  amount: z.string().nullish(), // Overrides the progression amount for this dose
+});
+
+export type DoseSlot = z.infer<typeof doseSlotSchema>;
+
+// One step of a step-based updosing protocol, e.g. "3 mg for 14 days"
+export const doseStepSchema = z.object({
+  amount: z.string().min(1),
+  days: z.number().int().min(1), // Minimum number of days to hold this dose before stepping up
+});
+
+export type DoseStep = z.infer<typeof doseStepSchema>;
+
+// What to do after a run of consecutive missed dosing days, e.g. "miss 3+ days → drop one step"
+export const missedDoseRuleSchema = z.object({
+  minMissedDays: z.number().int().min(1),
+  action: z.enum(["drop_step", "contact_allergist"]),
+});
+
+export type MissedDoseRule = z.infer<typeof missedDoseRuleSchema>;
+
+// Follow-up for each reaction grade, e.g. moderate → step down. See shared/reaction-grading.ts
+export const reactionActionSchema = z.enum(["repeat", "hold", "step_down", "call_doctor"]);
+
+export const reactionActionMapSchema = z.object({
+  mild: reactionActionSchema,
+  moderate: reactionActionSchema,
+  severe: reactionActionSchema,
+});
+
+export type ReactionAction = z.infer<typeof reactionActionSchema>;
+export type ReactionActionMap = z.infer<typeof reactionActionMapSchema>;
+
+// Dose quantities. Amounts are stored as text like "0.5 tsp"; these units can be
+// converted to a common base unit so progressions between units work
+export const quantityUnits = ["tsp", "tbsp", "cup", "ml", "g", "mg", "piece"] as const;
+
+export const quantitySchema = z.object({
+  value: z.number().nonnegative(),
+  unit: z.enum(quantityUnits),
+});
+
+export type QuantityUnit = typeof quantityUnits[number];
+export type Quantity = z.infer<typeof quantitySchema>;
+
+// Size of each unit in its dimension's base unit (ml, mg or piece)
+export const unitConversions: Record<QuantityUnit, { dimension: "volume" | "mass" | "count"; toBase: number }> = {
+  tsp: { dimension: "volume", toBase: 4.92892 },
+  tbsp: { dimension: "volume", toBase: 14.7868 },
+  cup: { dimension: "volume", toBase: 236.588 },
+  ml: { dimension: "volume", toBase: 1 },
+  g: { dimension: "mass", toBase: 1000 },
+  mg: { dimension: "mass", toBase: 1 },
+  piece: { dimension: "count", toBase: 1 },
+};
+
 // User storage table
 export const users = pgTable("users", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
@@ -22,21 +91,55 @@ export const users = pgTable("users", {
   createdAt: timestamp("created_at").defaultNow(),
 });
 
+// Product a dose is measured out from, e.g. peanut flour at 50% peanut protein
+export const products = pgTable("products", {
+  id: serial("id").primaryKey(),
+  userId: varchar("user_id").notNull().references(() => users.id),
+  name: text("name").notNull(),
+  proteinPercent: real("protein_percent").notNull(), // Allergen protein as a percentage of the product's weight
+  isActive: boolean("is_active").notNull().default(true),
+});
+
+// Ordered group of foods (e.g. a milk ladder: muffin → pancake → cheese → yogurt → milk)
+export const ladders = pgTable("ladders", {
+  id: serial("id").primaryKey(),
+  userId: varchar("user_id").notNull().references(() => users.id),
+  name: text("name").notNull(),
+  advanceMode: text("advance_mode", { enum: ["date", "confirmation"] }).notNull().default("confirmation"),
+  currentRung: integer("current_rung").notNull().default(0), // Index into the ladder's foods ordered by ladderRung
+  rungStartedAt: date("rung_started_at").notNull(), // When the current rung began
+  isActive: boolean("is_active").notNull().default(true),
+});
+
 export const foods = pgTable("foods", {
   id: serial("id").primaryKey(),
   userId: varchar("user_id").notNull().references(() => users.id),
   name: text("name").notNull(),
   instructions: text("instructions").notNull(),
   color: text("color").notNull(),
-  frequency: text("frequency").notNull(), // Custom frequency like "every 2 days", "3 times per week", etc.
+  frequency: text("frequency").notNull(), // Display label like "Every 2 days", "3 times a week", etc.
+  recurrence: jsonb("recurrence").$type<RecurrenceRule>(), // Structured rule the schedule is generated from
+  doseSlots: jsonb("dose_slots").$type<DoseSlot[]>(), // One item per dose of the day (see recurrence.dosesPerDay)
   startDate: date("start_date").notNull(),
   isActive: boolean("is_active").notNull().default(true),
   mealType: text("meal_type", { enum: ["breakfast", "lunch", "dinner", "snack", "any"] }).default("any"),
+  // Ladder membership
+  ladderId: integer("ladder_id").references(() => ladders.id),
+  ladderRung: integer("ladder_rung"), // Position of this food within its ladder (0 = first rung)
+  // When set, dose amounts are mg of allergen protein measured out from this product
+  productId: integer("product_id").references(() => products.id),
   // Dose progression settings
   startingAmount: text("starting_amount"),
   targetAmount: text("target_amount"),
-  progressionType: text("progression_type"), // 'buildup', 'static', 'reduction', 'custom'
+  progressionType: text("progression_type"), // 'buildup', 'static', 'reduction', 'custom', 'steps'
+  doseSteps: jsonb("dose_steps").$type<DoseStep[]>(), // Ordered protocol steps, used when progressionType is 'steps'
   progressionDuration: integer("progression_duration"), // days to reach target
+  progressionOffsetDays: integer("progression_offset_days").notNull().default(0), // Days the progression was pushed back by rescheduling
+  missedDoseRules: jsonb("missed_dose_rules").$type<MissedDoseRule[]>(), // Applied by server/missed-doses.ts
+  reactionActions: jsonb("reaction_actions").$type<ReactionActionMap>(), // Defaults to defaultReactionActions
+  // Watch period after each dose; see shared/observation.ts for the defaults
+  observationMinutes: integer("observation_minutes"), // 0 turns the timer off
+  restRules: jsonb("rest_rules").$type<string[]>(), // e.g. "No exercise", shown while the timer runs
   // Time scheduling settings
   startTime: text("start_time"), // HH:MM format
   endTime: text("end_time"), // HH:MM format
@@ -49,23 +152,266 @@ export const scheduleEntries = pgTable("schedule_entries", {
   userId: varchar("user_id").notNull().references(() => users.id),
   foodId: integer("food_id").notNull().references(() => foods.id),
   date: date("date").notNull(),
-  isCompleted: boolean("is_completed").notNull().default(false),
-  completedAt: text("completed_at"), // ISO timestamp when completed
+  status: text("status", { enum: ["pending", "completed", "partial", "skipped", "missed"] }).notNull().default("pending"),
+  isCompleted: boolean("is_completed").notNull().default(false), // True for completed and partial doses, kept in step with status
+  actualAmount: text("actual_amount"), // What was actually eaten, for partial doses
+  skipReason: text("skip_reason"), // Why the dose was skipped on purpose, e.g. "Fever"
+  completedAt: text("completed_at"), // ISO timestamp when the dose was taken
   // Calculated values for this specific entry
-  calculatedAmount: text("calculated_amount"), // Amount for this specific day/occurrence
+  calculatedAmount: text("calculated_amount"), // Amount for this specific day/occurrence (of the product, for protein-dosed foods)
+  proteinMg: real("protein_mg"), // Allergen protein dose in mg, for foods dosed from a product
   calculatedTime: text("calculated_time"), // Time for this specific day/occurrence (HH:MM)
   occurrenceNumber: integer("occurrence_number"), // Which occurrence this is (for progression calculations)
+  stepNumber: integer("step_number"), // Protocol step this dose belongs to (step-based protocols only)
+  doseSlot: integer("dose_slot").notNull().default(0), // Which dose of the day this is (0 = first)
+  // Set when a missed-dose rule changed this entry, shown as a warning on the calendar
+  adjustmentNote: text("adjustment_note"),
+  adjustedForMissedDays: integer("adjusted_for_missed_days"), // Length of the missed streak that triggered it
+}, (table) => [
+  // One entry per dose, so generating the same range twice can't double it
+  uniqueIndex("UQ_schedule_entry_dose").on(table.userId, table.foodId, table.date, table.doseSlot),
+]);
+
+// Reaction observed after a dose, the record families bring to their allergist
+export const reactions = pgTable("reactions", {
+  id: serial("id").primaryKey(),
+  userId: varchar("user_id").notNull().references(() => users.id),
+  foodId: integer("food_id").references(() => foods.id),
+  scheduleEntryId: integer("schedule_entry_id"), // Dose it followed; not a foreign key since entries are regenerated
+  date: date("date").notNull(),
+  symptoms: jsonb("symptoms").notNull().$type<string[]>(),
+  onsetMinutes: integer("onset_minutes"), // Minutes after the dose the first symptom appeared
+  severity: text("severity", { enum: ["mild", "moderate", "severe"] }).notNull(),
+  gradingAnswers: jsonb("grading_answers").$type<Record<string, string>>(), // Questionnaire answers the severity was graded from
+  followUpAction: text("follow_up_action", { enum: ["repeat", "hold", "step_down", "call_doctor"] }), // Applied to the food's upcoming doses
+  acknowledged: boolean("acknowledged").notNull().default(false), // Calendar banner dismissed
+  treatment: text("treatment"), // e.g. "Antihistamine" or "Epinephrine"
+  note: text("note"),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// Break from dosing for illness, travel or a clinician hold. Without a food it pauses every food.
+export const pauses = pgTable("pauses", {
+  id: serial("id").primaryKey(),
+  userId: varchar("user_id").notNull().references(() => users.id),
+  foodId: integer("food_id").references(() => foods.id), // Null pauses the whole account
+  reason: text("reason", { enum: ["illness", "travel", "clinician_hold", "other"] }).notNull(),
+  startDate: date("start_date").notNull(),
+  endDate: date("end_date"), // Last paused day; null until resumed
+  note: text("note"),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+export const notificationChannels = ["in_app", "push", "email", "sms"] as const;
+export type NotificationChannelName = typeof notificationChannels[number];
+
+// Per-user dose reminder preferences; no row means reminders are off
+export const reminderSettings = pgTable("reminder_settings", {
+  userId: varchar("user_id").primaryKey().references(() => users.id),
+  enabled: boolean("enabled").notNull().default(true),
+  leadMinutes: integer("lead_minutes").notNull().default(15), // Reminder goes out this long before calculatedTime
+  escalateAfterMinutes: integer("escalate_after_minutes"), // Follow-up when still not done this long after calculatedTime; null turns it off
+  channels: jsonb("channels").notNull().$type<NotificationChannelName[]>(),
+  escalationChannels: jsonb("escalation_channels").$type<NotificationChannelName[]>(), // Defaults to channels
+  email: text("email"),
+  phone: text("phone"), // E.164, e.g. +15551234567
+  timeZone: text("time_zone").notNull().default("UTC"), // IANA zone dose times are read in
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+// One row per reminder delivered on a channel. The in_app rows are what the app shows;
+// all of them stop the scheduler from sending the same reminder twice.
+export const notifications = pgTable("notifications", {
+  id: serial("id").primaryKey(),
+  userId: varchar("user_id").notNull().references(() => users.id),
+  scheduleEntryId: integer("schedule_entry_id"), // Dose it's about; not a foreign key since entries are regenerated
+  doseTime: text("dose_time"), // The dose's calculatedTime when sent, so a snoozed dose is reminded again
+  kind: text("kind", { enum: ["reminder", "escalation"] }).notNull(),
+  channel: text("channel", { enum: notificationChannels }).notNull(),
+  title: text("title").notNull(),
+  body: text("body").notNull(),
+  status: text("status", { enum: ["sent", "failed"] }).notNull(),
+  error: text("error"), // Why delivery failed
+  readAt: timestamp("read_at"),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [index("IDX_notification_entry").on(table.scheduleEntryId)]);
+
+// Browser Web Push endpoint; one per device the user turned push reminders on from
+export const pushSubscriptions = pgTable("push_subscriptions", {
+  id: serial("id").primaryKey(),
+  userId: varchar("user_id").notNull().references(() => users.id),
+  endpoint: text("endpoint").notNull().unique(),
+  p256dh: text("p256dh").notNull(), // Browser's public key, base64url
+  auth: text("auth").notNull(), // Shared auth secret, base64url
+  userAgent: text("user_agent"),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// Server's VAPID key pair, generated on first use unless VAPID_PUBLIC_KEY and VAPID_PRIVATE_KEY are set
+export const vapidKeys = pgTable("vapid_keys", {
+  id: serial("id").primaryKey(),
+  publicKey: text("public_key").notNull(), // Uncompressed P-256 point, base64url
+  privateKey: text("private_key").notNull(), // base64url
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// State of each background job in server/jobs.ts. The lock columns let one instance
+// claim a due run when several share the database.
+export const jobs = pgTable("jobs", {
+  name: text("name").primaryKey(),
+  nextRunAt: timestamp("next_run_at").notNull(),
+  lockedBy: text("locked_by"), // Instance running it
+  lockedUntil: timestamp("locked_until"), // Lock expires after this, in case the instance died mid-run
+  lastRunAt: timestamp("last_run_at"),
+  lastStatus: text("last_status", { enum: ["succeeded", "failed"] }),
+});
+
+export const jobRuns = pgTable("job_runs", {
+  id: serial("id").primaryKey(),
+  jobName: text("job_name").notNull(),
+  instanceId: text("instance_id").notNull(),
+  status: text("status", { enum: ["running", "succeeded", "failed"] }).notNull(),
+  startedAt: timestamp("started_at").notNull(),
+  finishedAt: timestamp("finished_at"),
+  result: text("result"), // Summary, e.g. "12 doses marked missed"
+  error: text("error"),
+}, (table) => [index("IDX_job_run_started").on(table.startedAt)]);
+
+// Protocol templates saved by a user; built-in templates live in server/protocol-templates.ts
+export const protocolTemplates = pgTable("protocol_templates", {
+  id: serial("id").primaryKey(),
+  userId: varchar("user_id").notNull().references(() => users.id),
+  name: text("name").notNull(),
+  description: text("description"),
+  settings: jsonb("settings").notNull().$type<ProtocolSettings>(),
+  createdAt: timestamp("created_at").defaultNow(),
 });
 
 export const insertFoodSchema = createInsertSchema(foods).omit({
   id: true,
   isActive: true,
   userId: true, // Will be added by the server from session
+  ladderId: true, // Managed through the ladder routes
+  ladderRung: true,
+  progressionOffsetDays: true, // Managed by rescheduling
+}).extend({
+  recurrence: recurrenceRuleSchema.nullish(),
+  doseSlots: z.array(doseSlotSchema).max(4).nullish(),
+  doseSteps: z.array(doseStepSchema).max(50).nullish(),
+  missedDoseRules: z.array(missedDoseRuleSchema).max(5).nullish(),
+  reactionActions: reactionActionMapSchema.nullish(),
+  observationMinutes: z.number().int().min(0).max(240).nullish(),
+  restRules: z.array(z.string().min(1)).max(10).nullish(),
 });
 
 export const insertScheduleEntrySchema = createInsertSchema(scheduleEntries).omit({
   id: true,
   userId: true, // Will be added by the server from session
+}).extend({
+  completedAt: z.string().datetime().nullish(), // Set by the server when omitted; editable for doses logged later
+});
+
+export const insertProductSchema = createInsertSchema(products).omit({
+  id: true,
+  userId: true, // Will be added by the server from session
+  isActive: true,
+}).extend({
+  name: z.string().min(1, "Product name is required"),
+  proteinPercent: z.number().gt(0).max(100),
+});
+
+export const insertReactionSchema = createInsertSchema(reactions).omit({
+  id: true,
+  userId: true, // Will be added by the server from session
+  createdAt: true,
+  followUpAction: true, // Chosen by the server from the food's reaction actions
+}).extend({
+  symptoms: z.array(z.string().min(1)).min(1, "Pick at least one symptom"),
+  onsetMinutes: z.number().int().min(0).nullish(),
+  gradingAnswers: z.record(z.string()).nullish(),
+});
+
+export const insertPauseSchema = createInsertSchema(pauses).omit({
+  id: true,
+  userId: true, // Will be added by the server from session
+  createdAt: true,
+}).extend({
+  startDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/),
+  endDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/).nullish(),
+}).refine(pause => !pause.endDate || pause.endDate >= pause.startDate, {
+  message: "End date must be on or after the start date",
+  path: ["endDate"],
+});
+
+export const resumePauseSchema = z.object({
+  mode: z.enum(["continue", "step_down"]), // Pick up at the last dose, or one dose lower
+  date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/).optional(), // First dosing day again; defaults to today
+});
+
+export const insertReminderSettingsSchema = createInsertSchema(reminderSettings).omit({
+  userId: true, // Will be added by the server from session
+  updatedAt: true,
+}).extend({
+  leadMinutes: z.number().int().min(0).max(240),
+  escalateAfterMinutes: z.number().int().min(5).max(720).nullish(),
+  channels: z.array(z.enum(notificationChannels)).min(1, "Pick at least one channel"),
+  escalationChannels: z.array(z.enum(notificationChannels)).min(1).nullish(),
+  email: z.string().email().nullish(),
+  phone: z.string().regex(/^\+\d{7,15}$/, "Use international format, e.g. +15551234567").nullish(),
+  timeZone: z.string().refine(zone => {
+    try {
+      new Intl.DateTimeFormat("en-US", { timeZone: zone });
+      return true;
+    } catch {
+      return false;
+    }
+  }, "Unknown time zone"),
+}).refine(settings => ![...settings.channels, ...(settings.escalationChannels ?? [])].includes("email") || !!settings.email, {
+  message: "Add an email address for email reminders",
+  path: ["email"],
+}).refine(settings => ![...settings.channels, ...(settings.escalationChannels ?? [])].includes("sms") || !!settings.phone, {
+  message: "Add a phone number for text reminders",
+  path: ["phone"],
+});
+
+// Body of PushSubscription.toJSON() from the browser
+export const pushSubscriptionSchema = z.object({
+  endpoint: z.string().url(),
+  keys: z.object({
+    p256dh: z.string().min(1),
+    auth: z.string().min(1),
+  }),
+});
+
+export const insertLadderSchema = z.object({
+  name: z.string().min(1, "Ladder name is required"),
+  advanceMode: z.enum(["date", "confirmation"]),
+  foodIds: z.array(z.number().int()).min(2, "A ladder needs at least two foods") // In rung order
+    .refine(ids => new Set(ids).size === ids.length, "Each food can only be on one rung"),
+});
+
+// Food fields a protocol template prefills
+export const protocolSettingsSchema = insertFoodSchema.pick({
+  frequency: true,
+  recurrence: true,
+  doseSlots: true,
+  startingAmount: true,
+  targetAmount: true,
+  progressionType: true,
+  progressionDuration: true,
+  doseSteps: true,
+  startTime: true,
+  endTime: true,
+  timeProgression: true,
+  timeProgressionAmount: true,
+});
+
+export const insertProtocolTemplateSchema = createInsertSchema(protocolTemplates).omit({
+  id: true,
+  userId: true, // Will be added by the server from session
+  createdAt: true,
+}).extend({
+  settings: protocolSettingsSchema,
 });
 
 // Auth schemas
@@ -86,3 +432,97 @@ export type InsertFood = z.infer<typeof insertFoodSchema>;
 export type Food = typeof foods.$inferSelect;
 export type InsertScheduleEntry = z.infer<typeof insertScheduleEntrySchema>;
 export type ScheduleEntry = typeof scheduleEntries.$inferSelect;
+export type EntryStatus = ScheduleEntry["status"];
+export type Ladder = typeof ladders.$inferSelect;
+export type InsertReaction = z.infer<typeof insertReactionSchema>;
+export type Reaction = typeof reactions.$inferSelect;
+export type InsertPause = z.infer<typeof insertPauseSchema>;
+export type Pause = typeof pauses.$inferSelect;
+export type ResumePause = z.infer<typeof resumePauseSchema>;
+export type InsertReminderSettings = z.infer<typeof insertReminderSettingsSchema>;
+export type ReminderSettings = typeof reminderSettings.$inferSelect;
+export type Notification = typeof notifications.$inferSelect;
+export type InsertNotification = Omit<Notification, "id" | "userId" | "readAt" | "createdAt">;
+export type PushSubscriptionInput = z.infer<typeof pushSubscriptionSchema>;
+export type PushSubscription = typeof pushSubscriptions.$inferSelect;
+export type VapidKeys = Pick<typeof vapidKeys.$inferSelect, "publicKey" | "privateKey">;
+export type Job = typeof jobs.$inferSelect;
+export type JobRun = typeof jobRuns.$inferSelect;
+export type InsertProduct = z.infer<typeof insertProductSchema>;
+export type Product = typeof products.$inferSelect;
+export type InsertLadder = z.infer<typeof insertLadderSchema>;
+export type ProtocolSettings = z.infer<typeof protocolSettingsSchema>;
+export type InsertProtocolTemplate = z.infer<typeof insertProtocolTemplateSchema>;
+export type ProtocolTemplate = typeof protocolTemplates.$inferSelect;
+
+// Ladder with the progress details computed by the server
+export interface LadderWithProgress extends Ladder {
+  foodIds: number[]; // In rung order
+  nextAdvanceDate: string | null; // When the current rung's duration is up, if it has one
+  readyToAdvance: boolean;
+}
+
+// Entries an unsaved food would get, from POST /api/foods/preview-schedule
+export interface SchedulePreview {
+  startDate: string;
+  endDate: string;
+  entries: InsertScheduleEntry[];
+}
+
+// A future entry whose dose would differ after a food is edited
+export interface ScheduleEntryChange {
+  id: number;
+  date: string;
+  doseSlot: number;
+  before: Pick<ScheduleEntry, "calculatedAmount" | "calculatedTime">;
+  after: Pick<InsertScheduleEntry, "calculatedAmount" | "calculatedTime" | "proteinMg" | "stepNumber" | "occurrenceNumber">;
+}
+
+// What regenerating a food's future, uncompleted entries would do. Completed history,
+// doses already marked skipped or missed, and doses adjusted after a missed streak or
+// reaction are never touched.
+export interface ScheduleDiff {
+  fromDate: string;
+  added: InsertScheduleEntry[];
+  removed: ScheduleEntry[];
+  changed: ScheduleEntryChange[];
+  unchanged: number;
+}
+
+// What upserting a generated entry did. Existing doses are only updated while still
+// pending, so completed, skipped and missed history is left as it was.
+export type UpsertOutcome = "created" | "updated" | "unchanged";
+
+export interface UpsertedScheduleEntry {
+  entry: ScheduleEntry;
+  outcome: UpsertOutcome;
+}
+
+// One entry's changes in a bulk update
+export interface ScheduleEntryUpdate {
+  id: number;
+  changes: Partial<InsertScheduleEntry>;
+}
+
+// A food setting the schedule is generated from, changed along with its entries
+export interface FoodScheduleUpdate {
+  id: number;
+  changes: Partial<Pick<Food, "startDate" | "progressionOffsetDays">>;
+}
+
+// Deletes, updates and upserts saved together, e.g. when applying a ScheduleDiff
+export interface ScheduleChanges {
+  foodUpdates?: FoodScheduleUpdate[]; // Applied first
+  deleteIds: number[];
+  updates: ScheduleEntryUpdate[];
+  upserts: InsertScheduleEntry[];
+}
+
+// Template from the built-in catalog, served alongside the user's saved templates
+export interface BuiltInProtocolTemplate {
+  key: string;
+  name: string;
+  allergen: "peanut" | "egg" | "milk";
+  description: string;
+  settings: ProtocolSettings;
+}
@@ -0,0 +1,77 @@
+import { describe, expect, it } from "vitest";
+import { clampToTimeWindow, dosesToReachEndTime, getDoseSpacing, toMinutes, validateTimeWindow } from "./time-window";
+
+const twiceDaily = { frequency: "Twice daily", recurrence: { unit: "day" as const, interval: 1, dosesPerDay: 2 } };
+
+describe("clampToTimeWindow", () => {
+  it("stops a later progression at the target end time", () => {
+    const food = { startTime: "08:00", endTime: "10:00", timeProgression: "later" };
+    expect(clampToTimeWindow(toMinutes("11:00"), toMinutes("08:00"), food)).toBe(toMinutes("10:00"));
+    expect(clampToTimeWindow(toMinutes("09:00"), toMinutes("08:00"), food)).toBe(toMinutes("09:00"));
+  });
+
+  it("stops an earlier progression at the target end time", () => {
+    const food = { startTime: "10:00", endTime: "08:00", timeProgression: "earlier" };
+    expect(clampToTimeWindow(toMinutes("07:00"), toMinutes("10:00"), food)).toBe(toMinutes("08:00"));
+  });
+
+  it("doesn't pass midnight without a target end time", () => {
+    const food = { startTime: "22:00", timeProgression: "later" };
+    expect(clampToTimeWindow(toMinutes("22:00") + 180, toMinutes("22:00"), food)).toBe(24 * 60 - 1);
+  });
+});
+
+describe("dosesToReachEndTime", () => {
+  it("counts the doses a progression takes to reach its end time", () => {
+    expect(dosesToReachEndTime({ startTime: "08:00", endTime: "10:00", timeProgression: "later", timeProgressionAmount: 45 })).toBe(3);
+  });
+
+  it("is null without a progression", () => {
+    expect(dosesToReachEndTime({ startTime: "08:00", endTime: "10:00", timeProgression: "static" })).toBeNull();
+  });
+});
+
+describe("getDoseSpacing", () => {
+  it("spreads the doses from the start to the target end time", () => {
+    expect(getDoseSpacing({ startTime: "08:00", endTime: "12:00" }, 2)).toBe(240);
+    expect(getDoseSpacing({ startTime: "08:00", endTime: "12:00" }, 3)).toBe(120);
+  });
+
+  it("spreads across 12 hours without an end time, stopping at midnight", () => {
+    expect(getDoseSpacing({ startTime: "08:00" }, 2)).toBe(720);
+    expect(getDoseSpacing({ startTime: "20:00" }, 2)).toBe(239);
+  });
+
+  it("is null for a single dose a day", () => {
+    expect(getDoseSpacing({ startTime: "08:00", endTime: "12:00" }, 1)).toBeNull();
+  });
+});
+
+describe("validateTimeWindow", () => {
+  it("accepts a food without times", () => {
+    expect(validateTimeWindow({ frequency: "Every day" })).toBeNull();
+  });
+
+  it("needs a start time to go with an end time", () => {
+    expect(validateTimeWindow({ frequency: "Every day", endTime: "10:00" })?.path).toBe("startTime");
+  });
+
+  it("rejects an end time on the wrong side of the start for the progression", () => {
+    expect(validateTimeWindow({ frequency: "Every day", startTime: "10:00", endTime: "08:00", timeProgression: "later", timeProgressionAmount: 15 })?.path).toBe("endTime");
+    expect(validateTimeWindow({ frequency: "Every day", startTime: "08:00", endTime: "10:00", timeProgression: "earlier", timeProgressionAmount: 15 })?.path).toBe("endTime");
+  });
+
+  it("rejects a change per dose longer than the window", () => {
+    expect(validateTimeWindow({ frequency: "Every day", startTime: "08:00", endTime: "09:00", timeProgression: "later", timeProgressionAmount: 90 })?.path).toBe("timeProgressionAmount");
+  });
+
+  it("rejects windows too short for the doses of the day", () => {
+    expect(validateTimeWindow({ ...twiceDaily, startTime: "08:00", endTime: "08:10" })?.path).toBe("endTime");
+    expect(validateTimeWindow({ ...twiceDaily, startTime: "23:50" })?.path).toBe("startTime");
+    expect(validateTimeWindow({ ...twiceDaily, startTime: "08:00", endTime: "12:00" })).toBeNull();
+  });
+
+  it("doesn't need room for doses that have their own time", () => {
+    expect(validateTimeWindow({ ...twiceDaily, startTime: "23:50", doseSlots: [{}, { time: "07:00" }] })).toBeNull();
+  });
+});
@@ -0,0 +1,102 @@
+import type { InsertFood } from "./schema";
+import { recurrenceFromFrequency } from "./recurrence";
+
+type TimeSettings = Pick<InsertFood, 'startTime' | 'endTime' | 'timeProgression' | 'timeProgressionAmount'>;
+type DoseSettings = TimeSettings & Pick<InsertFood, 'frequency' | 'recurrence' | 'doseSlots'>;
+
+const LAST_MINUTE = 24 * 60 - 1;
+const DEFAULT_DOSE_SPREAD_MINUTES = 12 * 60; // Without a target end time
+const MIN_DOSE_GAP_MINUTES = 30;
+
+export function toMinutes(time: string): number {
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours * 60 + minutes;
+}
+
+function isProgressing(food: TimeSettings): boolean {
+  return food.timeProgression === 'later' || food.timeProgression === 'earlier';
+}
+
+// Minutes of the day dosing stays within, in order. Doses move from the start time
+// toward the target end time, so for an "earlier" progression the end comes first.
+export function getTimeWindow(food: Pick<InsertFood, 'startTime' | 'endTime'>): { from: number; to: number } | null {
+  if (!food.startTime) return null;
+  const start = toMinutes(food.startTime);
+  const end = food.endTime ? toMinutes(food.endTime) : null;
+  if (end === null) return { from: start, to: LAST_MINUTE };
+  return { from: Math.min(start, end), to: Math.max(start, end) };
+}
+
+// Keep a progressed time from moving past the target end time, or past midnight when
+// there is none. Times never move back past the dose's own base time.
+export function clampToTimeWindow(minutes: number, baseMinutes: number, food: TimeSettings): number {
+  const end = food.endTime ? toMinutes(food.endTime) : null;
+  if (food.timeProgression === 'later') {
+    return Math.min(minutes, Math.max(end ?? LAST_MINUTE, baseMinutes));
+  }
+  if (food.timeProgression === 'earlier') {
+    return Math.max(minutes, Math.min(end ?? 0, baseMinutes));
+  }
+  return minutes;
+}
+
+// Minutes between the doses of a day that don't have a time of their own. They spread
+// from the start time to the target end time when it comes later, otherwise across the
+// next 12 hours without passing midnight.
+export function getDoseSpacing(food: Pick<InsertFood, 'startTime' | 'endTime'>, dosesPerDay: number): number | null {
+  if (!food.startTime || dosesPerDay < 2) return null;
+  const start = toMinutes(food.startTime);
+  const end = food.endTime ? toMinutes(food.endTime) : null;
+  const span = end !== null && end > start ? end - start : Math.min(DEFAULT_DOSE_SPREAD_MINUTES, LAST_MINUTE - start);
+  return Math.floor(span / (dosesPerDay - 1));
+}
+
+// Doses until a progressing time reaches the target end time and stops there
+export function dosesToReachEndTime(food: TimeSettings): number | null {
+  if (!isProgressing(food) || !food.startTime || !food.endTime || !food.timeProgressionAmount) return null;
+  return Math.ceil(Math.abs(toMinutes(food.endTime) - toMinutes(food.startTime)) / food.timeProgressionAmount);
+}
+
+// Problem with a food's time settings, keyed by the field to show it on
+export function validateTimeWindow(food: DoseSettings): { path: keyof TimeSettings; message: string } | null {
+  if (food.endTime && !food.startTime) {
+    return { path: 'startTime', message: "Pick a start time to go with the target end time" };
+  }
+
+  // Only doses without their own time are spread after the start time
+  const { dosesPerDay } = food.recurrence ?? recurrenceFromFrequency(food.frequency);
+  const spreads = Array.from({ length: dosesPerDay }).some((_, slot) => slot > 0 && !food.doseSlots?.[slot]?.time);
+  const spacing = getDoseSpacing(food, dosesPerDay);
+  if (spreads && spacing !== null && spacing < MIN_DOSE_GAP_MINUTES) {
+    return food.endTime && toMinutes(food.endTime) > toMinutes(food.startTime!)
+      ? { path: 'endTime', message: `Target end time is too close to the start time for ${dosesPerDay} doses a day` }
+      : { path: 'startTime', message: `Start time is too late to fit ${dosesPerDay} doses a day before midnight` };
+  }
+  if (!isProgressing(food)) {
+    if (food.startTime && food.endTime && toMinutes(food.endTime) < toMinutes(food.startTime)) {
+      return { path: 'endTime', message: "Target end time must be after the start time" };
+    }
+    return null;
+  }
+
+  if (!food.startTime) {
+    return { path: 'startTime', message: "A time progression needs a start time" };
+  }
+  if (!food.timeProgressionAmount) {
+    return { path: 'timeProgressionAmount', message: "Choose how much the time changes each dose" };
+  }
+  if (!food.endTime) return null;
+
+  const start = toMinutes(food.startTime);
+  const end = toMinutes(food.endTime);
+  if (food.timeProgression === 'later' && end <= start) {
+    return { path: 'endTime', message: "Target end time must be after the start time when doses get later" };
+  }
+  if (food.timeProgression === 'earlier' && end >= start) {
+    return { path: 'endTime', message: "Target end time must be before the start time when doses get earlier" };
+  }
+  if (food.timeProgressionAmount > Math.abs(end - start)) {
+    return { path: 'timeProgressionAmount', message: "The change per dose is longer than the time between start and target end" };
+  }
+  return null;
+}